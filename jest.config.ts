@@ -1,12 +1,37 @@
-module.exports = {
-   //    projects: ["<rootDir>/src/packages/*"],
+/** 各测试项目共用的配置 */
+const baseConfig = {
    testEnvironment: "node",
-   transform: {
-      "^.+\\.tsx?$": "ts-jest",
-   },
    moduleNameMapper: {
       "^@/(.*)$": "<rootDir>/src/$1",
    },
-   testMatch: ["<rootDir>/src/packages/core/test/**/*.spec.ts"],
-   rootDir: ".",
+   rootDir: __dirname,
+};
+
+module.exports = {
+   projects: [
+      {
+         ...baseConfig,
+         displayName: "core",
+         transform: {
+            "^.+\\.tsx?$": "ts-jest",
+         },
+         testMatch: ["<rootDir>/src/packages/core/test/**/*.spec.ts"],
+         testPathIgnorePatterns: ["/node_modules/", "/test/decorators/"],
+      },
+      {
+         // ts-jest 在同一项目中只使用一份编译配置，标准装饰器的测试单独成为一个项目
+         ...baseConfig,
+         displayName: "standard-decorators",
+         transform: {
+            "^.+\\.tsx?$": [
+               "ts-jest",
+               {
+                  tsconfig:
+                     "<rootDir>/src/packages/core/test/decorators/tsconfig.json",
+               },
+            ],
+         },
+         testMatch: ["<rootDir>/src/packages/core/test/decorators/*.spec.ts"],
+      },
+   ],
 };
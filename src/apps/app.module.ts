@@ -5,6 +5,7 @@ import { MiddlewareConsumer } from "@/packages/common/interfaces/middleware";
 import { LoggerMiddleware } from "./others/logger.middleware";
 import { DynamicSerivce } from "./dynamic/dynamic.service";
 import { DatabaseModule as DynamicModule } from "./dynamic/dynamic-config.module";
+import { DYNAMIC_MODULE1 } from "./dynamic/database.providers";
 import { AppSerivce } from "./app.service";
 import { AppController } from "./app.controller"; // router
 import { RequestMethod } from "@/packages/common/enums";
@@ -20,7 +21,7 @@ import { ProductsModule } from "./products/products.module";
       FilterModule,
       DynamicModule.forRoot([
          {
-            provide: "DYNAMIC-MODULE1",
+            provide: DYNAMIC_MODULE1,
             useValue: { APITOKEN: "DYNAMIC-MODULE1" },
          },
          {
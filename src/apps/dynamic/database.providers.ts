@@ -1,7 +1,11 @@
+import { InjectionToken } from "@/packages/common/index";
+
 export interface Config {
    APITOKEN: string;
 }
 
+export const DYNAMIC_MODULE1 = new InjectionToken<Config>("DYNAMIC-MODULE1");
+
 export function createDatabaseProviders(entities, options?) {
    const providers = [];
    for (const entity of entities) {
@@ -1,8 +1,9 @@
-import { Inject } from "@/packages/common/index";
-import { Config } from "./database.providers";
+import { Inject, Injectable } from "@/packages/common/index";
+import { Config, DYNAMIC_MODULE1 } from "./database.providers";
 
+@Injectable()
 export class DynamicSerivce {
-   constructor(@Inject("DYNAMIC-MODULE1") private config: Config) {}
+   constructor(@Inject(DYNAMIC_MODULE1) private config: Config) {}
 
    getConfig() {
       console.log(this.config);
@@ -4,6 +4,7 @@ import { AppModule } from "./app.module"; // root
 import * as session from "express-session";
 import { Logger } from "../packages/core/logger-server";
 import { functionMiddleware } from "./others/function.middleware";
+import { ShutdownSignal } from "../packages/common/enums";
 
 async function bootstrap() {
    try {
@@ -24,6 +25,8 @@ async function bootstrap() {
       Logger.log("Session middleware applied successfully", "bootstrap");
 
       //   app.use(functionMiddleware); // 全局中间件
+      // 收到 SIGTERM/SIGINT 时调用关闭钩子并关闭 HTTP 服务器
+      app.enableShutdownHooks([ShutdownSignal.SIGTERM, ShutdownSignal.SIGINT]);
       await app.listen(3000);
       Logger.log("Application is listening on port 3000", "bootstrap");
    } catch (error) {
@@ -9,6 +9,10 @@ import { NewsModule } from "../news/news.module";
          provide: "PEOPLE",
          useValue: "Roy !",
       },
+      {
+         provide: "HOBBY",
+         useValue: "Dancer",
+      },
       {
          provide: "USERSERVICE",
          useValue: new UserSerivce(),
@@ -16,7 +20,7 @@ import { NewsModule } from "../news/news.module";
       {
          provide: "HOBBYSERVICE",
          useFactory: (x: string, y: string) => new HobbyService(x, y),
-         inject: ["Dancer", "PEOPLE"],
+         inject: ["HOBBY", "PEOPLE"],
       },
    ],
    exports: ["PEOPLE", "USERSERVICE", "HOBBYSERVICE", NewsModule],
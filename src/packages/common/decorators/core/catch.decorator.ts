@@ -1,5 +1,9 @@
 import { CATCH_WATERMARK, FILTER_CATCH_EXCEPTIONS } from "../../constants";
 import { TypeInterface, Abstract } from "../../interfaces";
+import {
+   defineStandardClassMetadata,
+   UniversalClassDecorator,
+} from "../../utils/standard-decorator.util";
 
 /**
  * Decorator that marks a class as a Nest exception filter. An exception filter
@@ -20,8 +24,9 @@ import { TypeInterface, Abstract } from "../../interfaces";
  */
 export function Catch(
    ...exceptions: Array<TypeInterface | Abstract<any>>
-): ClassDecorator {
-   return (target: object) => {
+): UniversalClassDecorator {
+   return (target: Function, context?: unknown) => {
+      defineStandardClassMetadata(target, context);
       Reflect.defineMetadata(CATCH_WATERMARK, true, target);
       Reflect.defineMetadata(FILTER_CATCH_EXCEPTIONS, exceptions, target);
    };
@@ -1,15 +1,22 @@
 import "reflect-metadata";
+import { SCOPE_OPTIONS_METADATA, VERSION_METADATA } from "../../constants";
+import { ScopeOptions } from "../../interfaces/scope-options.interface";
+import { VersionOptions } from "../../interfaces/version-options.interface";
+import {
+   defineStandardClassMetadata,
+   UniversalClassDecorator,
+} from "../../utils/standard-decorator.util";
 
-interface ControllerOptions {
+interface ControllerOptions extends ScopeOptions, VersionOptions {
    prefix?: string;
 }
 
-export function Controller(): ClassDecorator;
-export function Controller(prefix: string): ClassDecorator;
-export function Controller(options: ControllerOptions): ClassDecorator;
+export function Controller(): UniversalClassDecorator;
+export function Controller(prefix: string): UniversalClassDecorator;
+export function Controller(options: ControllerOptions): UniversalClassDecorator;
 export function Controller(
    prefixOrOpts?: string | ControllerOptions
-): ClassDecorator {
+): UniversalClassDecorator {
    let options: ControllerOptions = {};
 
    if (typeof prefixOrOpts === "string") {
@@ -18,9 +25,23 @@ export function Controller(
       options = prefixOrOpts;
    }
 
-   return function <TFunction extends Function>(
-      target: TFunction
-   ): TFunction | void {
+   return (target: Function, context?: unknown) => {
+      defineStandardClassMetadata(target, context);
       Reflect.defineMetadata("prefix", options.prefix || "", target);
+      Reflect.defineMetadata(
+         SCOPE_OPTIONS_METADATA,
+         { scope: options.scope, durable: options.durable },
+         target
+      );
+      // 控制器中未使用 @Version() 的路由使用控制器的版本
+      if (options.version !== undefined) {
+         Reflect.defineMetadata(
+            VERSION_METADATA,
+            Array.isArray(options.version)
+               ? [...new Set(options.version)]
+               : options.version,
+            target
+         );
+      }
    };
 }
@@ -4,3 +4,4 @@ export * from "./injectable.decorator";
 export * from "./catch.decorator";
 export * from "./exception-filters.decorator";
 export * from "./optional.decorator";
+export * from "./version.decorator";
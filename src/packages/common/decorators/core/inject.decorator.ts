@@ -6,7 +6,13 @@ import {
    PROPERTY_DEPS_METADATA,
    SELF_DECLARED_DEPS_METADATA,
 } from "../../constants";
-import { ForwardReference, InjectionToken } from "../../interfaces/modules";
+import { ForwardReference, ProviderToken } from "../../interfaces/modules";
+import {
+   appendStandardMetadata,
+   assertStandardInstanceField,
+   isStandardDecoratorContext,
+   StandardFieldDecorator,
+} from "../../utils/standard-decorator.util";
 
 /**
  * @Inject 装饰器用于标记构造函数参数或类属性，使其成为依赖注入的目标
@@ -14,10 +20,11 @@ import { ForwardReference, InjectionToken } from "../../interfaces/modules";
  * 1. 构造函数参数注入
  * 2. 属性注入
  * 3. 支持自定义注入令牌
+ * 4. TC39 标准装饰器：只能装饰实例字段，不生成类型元数据，必须显式指定令牌
  */
 export function Inject(
-   token?: InjectionToken | ForwardReference // 可选的注入令牌参数
-): PropertyDecorator & ParameterDecorator {
+   token?: ProviderToken | ForwardReference // 可选的注入令牌参数
+): PropertyDecorator & ParameterDecorator & StandardFieldDecorator {
    // 返回一个同时支持属性和参数装饰器的函数
    // 检查装饰器是否被调用时传入了参数
    const injectCallHasArguments = arguments.length > 0;
@@ -25,9 +32,24 @@ export function Inject(
    // 返回装饰器函数
    return (
       target: object, // 装饰器目标对象
-      key: string | symbol | undefined, // 属性名或符号
+      key: string | symbol | undefined | ClassFieldDecoratorContext, // 属性名或符号，标准装饰器为上下文对象
       index?: number // 参数索引（仅在参数装饰器中使用）
    ) => {
+      //? 0. 标准装饰器：属性依赖先记录在类元数据中，由类装饰器写入
+      if (isStandardDecoratorContext(key)) {
+         assertStandardInstanceField(key, "@Inject()");
+         if (!token) {
+            throw new Error(
+               `@Inject() with standard decorators requires an explicit token for "${String(key.name)}", because design:type metadata is not emitted.`
+            );
+         }
+         appendStandardMetadata(key, PROPERTY_DEPS_METADATA, {
+            key: key.name,
+            type: token,
+         });
+         return;
+      }
+
       const existingProvider =
          Reflect.getMetadata(MODULE_PROVIDERS, target) || [];
       existingProvider[index] = token;
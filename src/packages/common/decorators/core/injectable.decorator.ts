@@ -1,11 +1,23 @@
 import { INJECTABLE_WATERMARK, SCOPE_OPTIONS_METADATA } from "../../constants";
 import { ScopeOptions } from "../../interfaces/scope-options.interface";
+import {
+   defineStandardClassMetadata,
+   UniversalClassDecorator,
+} from "../../utils/standard-decorator.util";
 
 export type InjectableOptions = ScopeOptions;
 
-export function Injectable(options?: InjectableOptions): ClassDecorator {
-   return (target: object) => {
-      // todo：只有标记了 injectable 的 service 才可以做为服务
+/**
+ * 将类标记为提供者
+ * 同时支持旧版装饰器和 TC39 标准装饰器；标准装饰器不生成构造函数参数类型，
+ * 依赖需通过 @Inject() 装饰的属性或 inject() 获取
+ */
+export function Injectable(
+   options?: InjectableOptions
+): UniversalClassDecorator {
+   return (target: Function, context?: unknown) => {
+      defineStandardClassMetadata(target, context);
+      // 只有标记了 injectable 的类才可以直接注册为提供者
       Reflect.defineMetadata(INJECTABLE_WATERMARK, true, target); // 给类的定义添加可注入标记
 
       Reflect.defineMetadata(SCOPE_OPTIONS_METADATA, options, target);
@@ -0,0 +1,54 @@
+import "reflect-metadata";
+import { isUndefined } from "@/packages/shared/shared.utils";
+import {
+   OPTIONAL_DEPS_METADATA,
+   OPTIONAL_PROPERTY_DEPS_METADATA,
+} from "../../constants";
+import {
+   appendStandardMetadata,
+   assertStandardInstanceField,
+   isStandardDecoratorContext,
+   StandardFieldDecorator,
+} from "../../utils/standard-decorator.util";
+
+/**
+ * @Optional 装饰器用于标记可选依赖
+ * 依赖解析默认是严格模式，找不到提供者时启动失败；
+ * 标记了 @Optional 的构造函数参数或属性在找不到提供者时注入 undefined
+ * TC39 标准装饰器只能装饰实例字段
+ */
+export function Optional(): PropertyDecorator &
+   ParameterDecorator &
+   StandardFieldDecorator {
+   return (
+      target: object,
+      key: string | symbol | undefined | ClassFieldDecoratorContext,
+      index?: number
+   ) => {
+      //? 0. 标准装饰器：属性名先记录在类元数据中，由类装饰器写入
+      if (isStandardDecoratorContext(key)) {
+         assertStandardInstanceField(key, "@Optional()");
+         appendStandardMetadata(key, OPTIONAL_PROPERTY_DEPS_METADATA, key.name);
+         return;
+      }
+
+      //? 1. 构造函数参数：记录参数索引
+      if (!isUndefined(index)) {
+         const args = Reflect.getMetadata(OPTIONAL_DEPS_METADATA, target) || [];
+         Reflect.defineMetadata(OPTIONAL_DEPS_METADATA, [...args, index], target);
+         return;
+      }
+
+      //? 2. 属性：记录属性名
+      const properties =
+         Reflect.getMetadata(
+            OPTIONAL_PROPERTY_DEPS_METADATA,
+            target.constructor
+         ) || [];
+      Reflect.defineMetadata(
+         OPTIONAL_PROPERTY_DEPS_METADATA,
+         [...properties, key],
+         target.constructor
+      );
+   };
+}
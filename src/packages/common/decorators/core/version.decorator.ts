@@ -0,0 +1,31 @@
+import "reflect-metadata";
+import { VERSION_METADATA } from "../../constants";
+import { VersionValue } from "../../interfaces/version-options.interface";
+import {
+   getDecoratedMethod,
+   UniversalMethodDecorator,
+} from "../../utils/standard-decorator.util";
+
+/**
+ * Sets the version of the endpoint to the passed version
+ *
+ * 覆盖 @Controller() 的 version 选项和 enableVersioning() 的 defaultVersion
+ * 只有调用 app.enableVersioning() 后版本才会生效
+ *
+ * @see [Versioning](https://docs.nestjs.com/techniques/versioning)
+ *
+ * @publicApi
+ */
+export function Version(version: VersionValue): UniversalMethodDecorator {
+   if (Array.isArray(version)) {
+      version = [...new Set(version)];
+   }
+   return (
+      target: any,
+      keyOrContext: unknown,
+      descriptor?: TypedPropertyDescriptor<any>
+   ) => {
+      const method = getDecoratedMethod(target, keyOrContext, descriptor);
+      Reflect.defineMetadata(VERSION_METADATA, version, method);
+   };
+}
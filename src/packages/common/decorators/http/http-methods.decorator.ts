@@ -7,6 +7,10 @@ import {
    PATH_METADATA,
    REDIRECT_METADATA,
 } from "../../constants";
+import {
+   getDecoratedMethod,
+   UniversalMethodDecorator,
+} from "../../utils/standard-decorator.util";
 
 // export function Get(path: string = ""): MethodDecorator {
 //    return function <T>(
@@ -41,38 +45,40 @@ import {
 export function Redirect(
    url: string = "/",
    statusCode: HttpStatus = HttpStatus.FOUND
-): MethodDecorator {
-   return function <T>(
-      target: Object,
-      propertyKey: string | symbol,
-      descriptor: TypedPropertyDescriptor<T>
-   ) {
-      Reflect.defineMetadata(REDIRECT_METADATA, url, descriptor.value);
-      Reflect.defineMetadata(HTTP_CODE_METADATA, statusCode, descriptor.value);
+): UniversalMethodDecorator {
+   return (
+      target: any,
+      keyOrContext: unknown,
+      descriptor?: TypedPropertyDescriptor<any>
+   ) => {
+      const method = getDecoratedMethod(target, keyOrContext, descriptor);
+      Reflect.defineMetadata(REDIRECT_METADATA, url, method);
+      Reflect.defineMetadata(HTTP_CODE_METADATA, statusCode, method);
    };
 }
 
 export function HttpCode(
    statusCode: HttpStatus = HttpStatus.OK
-): MethodDecorator {
-   return function <T>(
-      target: Object,
-      propertyKey: string | symbol,
-      descriptor: TypedPropertyDescriptor<T>
-   ) {
-      Reflect.defineMetadata(HTTP_CODE_METADATA, statusCode, descriptor.value);
+): UniversalMethodDecorator {
+   return (
+      target: any,
+      keyOrContext: unknown,
+      descriptor?: TypedPropertyDescriptor<any>
+   ) => {
+      const method = getDecoratedMethod(target, keyOrContext, descriptor);
+      Reflect.defineMetadata(HTTP_CODE_METADATA, statusCode, method);
    };
 }
 
-export function Header(key: string, value: string): MethodDecorator {
-   return function <T>(
-      target: Object,
-      propertyKey: string | symbol,
-      descriptor: TypedPropertyDescriptor<T>
-   ) {
-      let HeadersMap =
-         Reflect.getMetadata(HEADERS_METADATA, descriptor.value) ?? {};
+export function Header(key: string, value: string): UniversalMethodDecorator {
+   return (
+      target: any,
+      keyOrContext: unknown,
+      descriptor?: TypedPropertyDescriptor<any>
+   ) => {
+      const method = getDecoratedMethod(target, keyOrContext, descriptor);
+      let HeadersMap = Reflect.getMetadata(HEADERS_METADATA, method) ?? {};
       HeadersMap = Object.assign(HeadersMap, { [key]: value });
-      Reflect.defineMetadata(HEADERS_METADATA, HeadersMap, descriptor.value);
+      Reflect.defineMetadata(HEADERS_METADATA, HeadersMap, method);
    };
 }
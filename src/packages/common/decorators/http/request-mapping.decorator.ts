@@ -1,5 +1,9 @@
 import { METHOD_METADATA, PATH_METADATA } from "../../constants";
 import { RequestMethod } from "../../enums/request-method.enum";
+import {
+   getDecoratedMethod,
+   UniversalMethodDecorator,
+} from "../../utils/standard-decorator.util";
 
 export interface RequestMappingMetadata {
    path?: string | string[];
@@ -18,7 +22,7 @@ const defaultMetadata = {
  * @param metadata - 请求映射元数据，包含路径和请求方法信息
  * @param metadata.path - 可选的请求路径，可以是字符串或字符串数组
  * @param metadata.method - 可选的HTTP请求方法
- * @returns MethodDecorator - 返回一个方法装饰器
+ * @returns UniversalMethodDecorator - 返回一个方法装饰器，支持旧版装饰器和 TC39 标准装饰器
  *
  * 使用示例：
  * @RequestMapping({ path: '/users', method: RequestMethod.GET })
@@ -26,7 +30,7 @@ const defaultMetadata = {
  */
 export const RequestMapping = (
    metadata: RequestMappingMetadata = defaultMetadata
-): MethodDecorator => {
+): UniversalMethodDecorator => {
    // 获取路径元数据，如果未提供则使用默认值"/"
    const pathMetadata = metadata[PATH_METADATA];
    const path = pathMetadata && pathMetadata.length ? pathMetadata : "/";
@@ -34,14 +38,14 @@ export const RequestMapping = (
    const requestMethod = metadata[METHOD_METADATA] || RequestMethod.GET;
 
    return (
-      target: object, // 装饰器所装饰的目标对象
-      key: string | symbol, // 被装饰的方法名
-      descriptor: TypedPropertyDescriptor<any> // 属性描述符
+      target: any, // 旧版装饰器为原型对象，标准装饰器为被装饰的方法
+      keyOrContext: unknown, // 旧版装饰器为方法名，标准装饰器为上下文对象
+      descriptor?: TypedPropertyDescriptor<any> // 属性描述符（仅旧版装饰器）
    ) => {
+      const method = getDecoratedMethod(target, keyOrContext, descriptor);
       // 使用Reflect.defineMetadata存储路径和方法信息
-      Reflect.defineMetadata(PATH_METADATA, path, descriptor.value);
-      Reflect.defineMetadata(METHOD_METADATA, requestMethod, descriptor.value);
-      return descriptor;
+      Reflect.defineMetadata(PATH_METADATA, path, method);
+      Reflect.defineMetadata(METHOD_METADATA, requestMethod, method);
    };
 };
 
@@ -59,7 +63,7 @@ export const RequestMapping = (
  */
 const createMappingDecorator =
    (method: RequestMethod) =>
-   (path?: string | string[]): MethodDecorator => {
+   (path?: string | string[]): UniversalMethodDecorator => {
       return RequestMapping({
          [PATH_METADATA]: path,
          [METHOD_METADATA]: method,
@@ -1,4 +1,5 @@
 import { GLOBAL_MODULE_METADATA } from "../../constants";
+import { UniversalClassDecorator } from "../../utils/standard-decorator.util";
 
 /**
  * Decorator that makes a module global-scoped.
@@ -11,7 +12,7 @@ import { GLOBAL_MODULE_METADATA } from "../../constants";
  *
  * @publicApi
  */
-export function Global(): ClassDecorator {
+export function Global(): UniversalClassDecorator {
    return (target: Function) => {
       Reflect.defineMetadata(GLOBAL_MODULE_METADATA, true, target);
    };
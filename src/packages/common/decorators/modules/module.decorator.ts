@@ -2,7 +2,12 @@ import "reflect-metadata";
 import { MODULE_METADATA } from "../../constants";
 import { validateModuleKeys } from "../../utils/validata-module-keys.utils";
 import { ModuleMetadata } from "../../interfaces/modules/module-metadata.interface";
+import {
+   Provider,
+   TypedProviders,
+} from "../../interfaces/modules/provider.interface";
 import { SetMetadata } from "../../set-metadata";
+import { UniversalClassDecorator } from "../../utils/standard-decorator.util";
 
 // interface ModduleMetadata {
 //    imports?: any[];
@@ -11,7 +16,16 @@ import { SetMetadata } from "../../set-metadata";
 //    exports?: any[];
 // }
 
-export function Module(metadata: ModuleMetadata): ClassDecorator {
+/**
+ * 声明模块
+ * 以 InjectionToken 为令牌的提供者在编译时按令牌的类型参数校验提供的值
+ * @param metadata - 模块的导入、控制器、提供者和导出
+ */
+export function Module<const TProviders extends readonly Provider[] = []>(
+   metadata: Omit<ModuleMetadata, "providers"> & {
+      providers?: TProviders & TypedProviders<TProviders>;
+   }
+): UniversalClassDecorator {
    const propsKeys = Object.keys(metadata);
    validateModuleKeys(propsKeys);
 
@@ -2,3 +2,4 @@ export * from "./request-method.enum";
 export * from "./http-status.enum";
 export * from "./route-paramtypes.enum";
 export * from "./version-type.enum";
+export * from "./shutdown-signal.enum";
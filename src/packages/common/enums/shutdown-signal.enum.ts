@@ -0,0 +1,17 @@
+/**
+ * 应用程序监听的系统关闭信号
+ * @publicApi
+ */
+export enum ShutdownSignal {
+   SIGHUP = "SIGHUP",
+   SIGINT = "SIGINT",
+   SIGQUIT = "SIGQUIT",
+   SIGILL = "SIGILL",
+   SIGTRAP = "SIGTRAP",
+   SIGABRT = "SIGABRT",
+   SIGBUS = "SIGBUS",
+   SIGFPE = "SIGFPE",
+   SIGSEGV = "SIGSEGV",
+   SIGUSR2 = "SIGUSR2",
+   SIGTERM = "SIGTERM",
+}
@@ -2,3 +2,6 @@ export * from "./decorators";
 export * from "./enums";
 export * from "./exceptions";
 export * from "./interfaces";
+export * from "./utils/forward-ref.util";
+export * from "./injection-token";
+export * from "./module-utils";
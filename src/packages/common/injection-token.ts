@@ -0,0 +1,29 @@
+/**
+ * 带类型的注入令牌
+ * 代替字符串或 Symbol 令牌，在 provide、@Inject()、inject()、工厂的 inject 数组和 exports 中使用
+ * 令牌的类型参数约束提供的值，inject() 根据令牌推断返回值的类型
+ * 令牌按实例区分，描述相同的两个令牌互不相同
+ *
+ * @example
+ * export const APP_CONFIG = new InjectionToken<AppConfig>("APP_CONFIG");
+ *
+ * const configProvider: ValueProvider<AppConfig> = {
+ *    provide: APP_CONFIG,
+ *    useValue: { port: 3000 },
+ * };
+ *
+ * @publicApi
+ */
+export class InjectionToken<T> {
+   /** 只用于类型推断，运行时不存在 */
+   declare readonly __type?: T;
+
+   /**
+    * @param description - 令牌的描述，用于依赖注入的错误信息
+    */
+   constructor(readonly description: string) {}
+
+   toString() {
+      return `InjectionToken ${this.description}`;
+   }
+}
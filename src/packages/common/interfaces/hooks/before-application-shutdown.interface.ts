@@ -0,0 +1,7 @@
+/**
+ * 所有 onModuleDestroy 完成后、关闭 HTTP 服务器之前调用
+ * @publicApi
+ */
+export interface BeforeApplicationShutdown {
+   beforeApplicationShutdown(signal?: string): any;
+}
@@ -0,0 +1,5 @@
+export * from "./on-init.interface";
+export * from "./on-application-bootstrap.interface";
+export * from "./on-destroy.interface";
+export * from "./before-application-shutdown.interface";
+export * from "./on-application-shutdown.interface";
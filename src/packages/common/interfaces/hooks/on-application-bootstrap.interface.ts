@@ -0,0 +1,7 @@
+/**
+ * 所有模块初始化完成、应用程序开始监听连接之前调用
+ * @publicApi
+ */
+export interface OnApplicationBootstrap {
+   onApplicationBootstrap(): any;
+}
@@ -0,0 +1,7 @@
+/**
+ * HTTP 服务器关闭后调用
+ * @publicApi
+ */
+export interface OnApplicationShutdown {
+   onApplicationShutdown(signal?: string): any;
+}
@@ -0,0 +1,7 @@
+/**
+ * 收到关闭信号或调用 app.close() 后，模块销毁前调用
+ * @publicApi
+ */
+export interface OnModuleDestroy {
+   onModuleDestroy(): any;
+}
@@ -0,0 +1,7 @@
+/**
+ * 模块的依赖解析完成后调用
+ * @publicApi
+ */
+export interface OnModuleInit {
+   onModuleInit(): any;
+}
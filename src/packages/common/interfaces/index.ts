@@ -3,6 +3,7 @@ export * from "./middleware";
 export * from "./http";
 export * from "./features";
 export * from "./exceptions";
+export * from "./hooks";
 export * from "./abstract.interface";
 export * from "./scope-options.interface";
 export { Type as TypeInterface } from "./type.interface";
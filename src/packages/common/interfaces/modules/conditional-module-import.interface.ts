@@ -0,0 +1,31 @@
+import { Type } from "../type.interface";
+import { DynamicModule } from "./dynamic-module.interface";
+import { ForwardReference } from "./forward-reference.interface";
+
+/**
+ * 条件导入的判断条件
+ * 字符串为环境变量名，变量已设置且不为 "false" 时满足条件；函数接收 process.env，返回 true 时满足条件
+ *
+ * @publicApi
+ */
+export type ModuleCondition = string | ((env: NodeJS.ProcessEnv) => boolean);
+
+/**
+ * ConditionalModule.registerWhen() 返回的条件导入，在模块扫描前判断条件
+ *
+ * @publicApi
+ */
+export interface ConditionalModuleImport {
+   /**
+    * 条件满足时导入的模块
+    */
+   conditionalModule:
+      | Type<any>
+      | DynamicModule
+      | Promise<DynamicModule>
+      | ForwardReference;
+   /**
+    * 判断是否导入模块的条件
+    */
+   condition: ModuleCondition;
+}
@@ -4,3 +4,4 @@ export * from "./dynamic-module.interface";
 export * from "./module-metadata.interface";
 export * from "./provider.interface";
 export * from "./optionall-factory-dependency.interface";
+export * from "./conditional-module-import.interface";
@@ -1,12 +1,17 @@
 import { Abstract } from "../abstract.interface";
 import { Type } from "../type.interface";
+import type { InjectionToken } from "../../injection-token";
 
 /**
+ * 可以作为提供者令牌的值
+ * 使用 InjectionToken 时，类型参数约束提供的值的类型
+ *
  * @publicApi
  */
-export type InjectionToken<T = any> =
+export type ProviderToken<T = any> =
    | string
    | symbol
    | Type<T>
    | Abstract<T>
+   | InjectionToken<T>
    | Function;
@@ -2,7 +2,9 @@ import { Abstract } from "../abstract.interface";
 import { Type } from "../type.interface";
 import { DynamicModule } from "./dynamic-module.interface";
 import { ForwardReference } from "./forward-reference.interface";
+import { ConditionalModuleImport } from "./conditional-module-import.interface";
 import { Provider } from "./provider.interface";
+import type { InjectionToken } from "../../injection-token";
 
 /**
  * Interface defining the property object that describes the module.
@@ -17,7 +19,11 @@ export interface ModuleMetadata {
     * required in this module.
     */
    imports?: Array<
-      Type<any> | DynamicModule | Promise<DynamicModule> | ForwardReference
+      | Type<any>
+      | DynamicModule
+      | Promise<DynamicModule>
+      | ForwardReference
+      | ConditionalModuleImport
    >;
    /**
     * Optional list of controllers defined in this module which have to be
@@ -37,6 +43,7 @@ export interface ModuleMetadata {
       | DynamicModule
       | string
       | symbol
+      | InjectionToken<any>
       | Provider
       | ForwardReference
       | Abstract<any>
@@ -1,9 +1,9 @@
-import { InjectionToken } from "./injection-token.interface";
+import { ProviderToken } from "./injection-token.interface";
 
 /**
  * @publicApi
  */
 export type OptionalFactoryDependency = {
-   token: InjectionToken;
+   token: ProviderToken;
    optional: boolean;
 };
@@ -1,7 +1,8 @@
 import { Scope } from "../scope-options.interface";
 import { Type } from "../type.interface";
-import { InjectionToken } from "./injection-token.interface";
+import { ProviderToken } from "./injection-token.interface";
 import { OptionalFactoryDependency } from "./optionall-factory-dependency.interface";
+import type { InjectionToken } from "../../injection-token";
 
 /**
  *
@@ -14,6 +15,27 @@ export type Provider<T = any> =
    | FactoryProvider<T>
    | ExistingProvider<T>;
 
+/**
+ * 以 InjectionToken 为令牌的提供者按令牌的类型参数校验，其他提供者保持不变
+ * 未指定类型参数的 Provider 无法关联 provide 和提供的值，@Module() 通过它校验 providers
+ */
+export type TypedProvider<P> = P extends { provide: InjectionToken<infer T> }
+   ? P extends { useValue: any }
+      ? ValueProvider<T>
+      : P extends { useFactory: any }
+        ? FactoryProvider<T>
+        : P extends { useClass: any }
+          ? ClassProvider<T>
+          : ExistingProvider<T>
+   : P;
+
+/**
+ * 逐项校验提供者列表，见 TypedProvider
+ */
+export type TypedProviders<P extends readonly unknown[]> = {
+   [K in keyof P]: TypedProvider<P[K]>;
+};
+
 /**
  * Interface defining a *Class* type provider.
  *
@@ -37,7 +59,7 @@ export interface ClassProvider<T = any> {
    /**
     * Injection token
     */
-   provide: InjectionToken;
+   provide: ProviderToken<T>;
    /**
     * Type (class name) of provider (instance to be injected).
     */
@@ -59,6 +81,11 @@ export interface ClassProvider<T = any> {
     * This flag can be used only in conjunction with scope = Scope.REQUEST.
     */
    durable?: boolean;
+   /**
+    * When "true", every registration of the injection token is collected and
+    * injected as an array, in module registration order.
+    */
+   multi?: boolean;
 }
 
 /**
@@ -80,7 +107,7 @@ export interface ValueProvider<T = any> {
    /**
     * Injection token
     */
-   provide: InjectionToken;
+   provide: ProviderToken<T>;
    /**
     * Instance of a provider to be injected.
     */
@@ -91,6 +118,11 @@ export interface ValueProvider<T = any> {
     * @see [Use factory](https://docs.nestjs.com/fundamentals/custom-providers#factory-providers-usefactory)
     */
    inject?: never;
+   /**
+    * When "true", every registration of the injection token is collected and
+    * injected as an array, in module registration order.
+    */
+   multi?: boolean;
 }
 
 /**
@@ -117,7 +149,7 @@ export interface FactoryProvider<T = any> {
    /**
     * Injection token
     */
-   provide: InjectionToken;
+   provide: ProviderToken<T>;
    /**
     * Factory function that returns an instance of the provider to be injected.
     */
@@ -125,7 +157,7 @@ export interface FactoryProvider<T = any> {
    /**
     * Optional list of providers to be injected into the context of the Factory function.
     */
-   inject?: Array<InjectionToken | OptionalFactoryDependency>;
+   inject?: Array<ProviderToken | OptionalFactoryDependency>;
    /**
     * Optional enum defining lifetime of the provider that is returned by the Factory function.
     */
@@ -137,6 +169,11 @@ export interface FactoryProvider<T = any> {
     * This flag can be used only in conjunction with scope = Scope.REQUEST.
     */
    durable?: boolean;
+   /**
+    * When "true", every registration of the injection token is collected and
+    * injected as an array, in module registration order.
+    */
+   multi?: boolean;
 }
 
 /**
@@ -158,9 +195,14 @@ export interface ExistingProvider<T = any> {
    /**
     * Injection token
     */
-   provide: InjectionToken;
+   provide: ProviderToken<T>;
    /**
     * Provider to be aliased by the Injection token.
     */
    useExisting: any;
+   /**
+    * When "true", every registration of the injection token is collected and
+    * injected as an array, in module registration order.
+    */
+   multi?: boolean;
 }
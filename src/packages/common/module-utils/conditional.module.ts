@@ -0,0 +1,49 @@
+import {
+   ConditionalModuleImport,
+   ModuleCondition,
+} from "../interfaces/modules/conditional-module-import.interface";
+
+/**
+ * 条件导入模块
+ * 根据环境变量或判断函数决定是否导入模块，代替在 imports 中手写三元表达式
+ * 条件在模块注册器扫描被导入模块之前判断，不满足时跳过该模块并输出日志
+ *
+ * @example
+ * @Module({
+ *    imports: [
+ *       ConditionalModule.registerWhen(MailCatcherModule, "MAIL_CATCHER"),
+ *       ConditionalModule.registerWhen(
+ *          MetricsModule,
+ *          (env) => env.NODE_ENV === "production"
+ *       ),
+ *    ],
+ * })
+ * export class AppModule {}
+ *
+ * @publicApi
+ */
+export class ConditionalModule {
+   /**
+    * 创建条件导入
+    * @param module - 条件满足时导入的模块、动态模块或 forwardRef
+    * @param condition - 环境变量名或接收 process.env 的判断函数
+    */
+   static registerWhen(
+      module: ConditionalModuleImport["conditionalModule"],
+      condition: ModuleCondition
+   ): ConditionalModuleImport {
+      return { conditionalModule: module, condition };
+   }
+}
+
+/**
+ * 检查是否为条件导入
+ * @param value - 要检查的值
+ */
+export const isConditionalModuleImport = (
+   value: any
+): value is ConditionalModuleImport =>
+   !!value &&
+   typeof value === "object" &&
+   "conditionalModule" in value &&
+   "condition" in value;
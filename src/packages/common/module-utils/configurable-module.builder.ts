@@ -0,0 +1,199 @@
+import { DynamicModule } from "../interfaces/modules/dynamic-module.interface";
+import { Provider } from "../interfaces/modules/provider.interface";
+import {
+   ASYNC_METHOD_SUFFIX,
+   DEFAULT_FACTORY_CLASS_METHOD_KEY,
+   DEFAULT_METHOD_KEY,
+} from "./constants";
+import {
+   ConfigurableModuleAsyncOptions,
+   ConfigurableModuleCls,
+   ConfigurableModuleExtras,
+   ConfigurableModuleHost,
+} from "./interfaces";
+import { generateOptionsInjectionToken } from "./utils/generate-options-injection-token.util";
+
+/**
+ * @publicApi
+ */
+export interface ConfigurableModuleBuilderOptions {
+   /**
+    * 模块选项的注入令牌，未指定时自动生成
+    */
+   optionsInjectionToken?: string | symbol;
+   /**
+    * 模块名，用于生成可读的注入令牌
+    */
+   moduleName?: string;
+}
+
+/**
+ * 可配置模块构建器
+ * 生成带有同步、异步静态注册方法的模块基类，代替手写的 forRoot/forRootAsync
+ * 负责：
+ * 1. 生成模块选项的注入令牌
+ * 2. 同步方法以 useValue 提供模块选项
+ * 3. 异步方法支持 useFactory + inject、useClass 和 useExisting 三种选项来源
+ * 4. 处理 isGlobal 和 extraProviders
+ *
+ * @example
+ * export const { ConfigurableModuleClass, MODULE_OPTIONS_TOKEN } =
+ *    new ConfigurableModuleBuilder<DatabaseOptions>()
+ *       .setClassMethodName("forRoot")
+ *       .build();
+ *
+ * @publicApi
+ */
+export class ConfigurableModuleBuilder<
+   ModuleOptions,
+   StaticMethodKey extends string = typeof DEFAULT_METHOD_KEY,
+   FactoryClassMethodKey extends string = typeof DEFAULT_FACTORY_CLASS_METHOD_KEY
+> {
+   protected staticMethodKey: StaticMethodKey;
+   protected factoryClassMethodKey: FactoryClassMethodKey;
+
+   constructor(
+      protected readonly options: ConfigurableModuleBuilderOptions = {}
+   ) {
+      this.staticMethodKey = DEFAULT_METHOD_KEY as StaticMethodKey;
+      this.factoryClassMethodKey =
+         DEFAULT_FACTORY_CLASS_METHOD_KEY as FactoryClassMethodKey;
+   }
+
+   /**
+    * 设置生成的静态方法名，异步方法名在其后追加 Async
+    * @param key - 方法名，如 forRoot、forFeature
+    */
+   setClassMethodName<StaticMethodKey extends string>(key: StaticMethodKey) {
+      const builder = this as unknown as ConfigurableModuleBuilder<
+         ModuleOptions,
+         StaticMethodKey,
+         FactoryClassMethodKey
+      >;
+      builder.staticMethodKey = key;
+      return builder;
+   }
+
+   /**
+    * 设置 useClass/useExisting 选项工厂上创建选项的方法名
+    * @param key - 方法名，如 createDatabaseOptions
+    */
+   setFactoryMethodName<FactoryClassMethodKey extends string>(
+      key: FactoryClassMethodKey
+   ) {
+      const builder = this as unknown as ConfigurableModuleBuilder<
+         ModuleOptions,
+         StaticMethodKey,
+         FactoryClassMethodKey
+      >;
+      builder.factoryClassMethodKey = key;
+      return builder;
+   }
+
+   /**
+    * 生成模块基类和选项注入令牌
+    */
+   build(): ConfigurableModuleHost<
+      ModuleOptions,
+      StaticMethodKey,
+      FactoryClassMethodKey
+   > {
+      const optionsToken =
+         this.options.optionsInjectionToken ??
+         generateOptionsInjectionToken(this.options.moduleName);
+      const { staticMethodKey, factoryClassMethodKey } = this;
+
+      // 静态方法中的 this 指向继承基类的模块类
+      class InternalModuleClass {
+         static [staticMethodKey](
+            options: ModuleOptions & ConfigurableModuleExtras
+         ): DynamicModule {
+            const { isGlobal, extraProviders, ...moduleOptions } =
+               options ?? ({} as ModuleOptions & ConfigurableModuleExtras);
+            return {
+               module: this,
+               global: isGlobal,
+               providers: [
+                  { provide: optionsToken, useValue: moduleOptions },
+                  ...(extraProviders ?? []),
+               ],
+            };
+         }
+
+         static [`${staticMethodKey}${ASYNC_METHOD_SUFFIX}`](
+            options: ConfigurableModuleAsyncOptions<
+               ModuleOptions,
+               FactoryClassMethodKey
+            >
+         ): DynamicModule {
+            return {
+               module: this,
+               global: options.isGlobal,
+               imports: options.imports ?? [],
+               providers: [
+                  ...createAsyncOptionsProviders(
+                     optionsToken,
+                     factoryClassMethodKey,
+                     options
+                  ),
+                  ...(options.extraProviders ?? []),
+               ],
+            };
+         }
+      }
+
+      return {
+         ConfigurableModuleClass:
+            InternalModuleClass as unknown as ConfigurableModuleCls<
+               ModuleOptions,
+               StaticMethodKey,
+               FactoryClassMethodKey
+            >,
+         MODULE_OPTIONS_TOKEN: optionsToken,
+         OPTIONS_TYPE: undefined as any,
+         ASYNC_OPTIONS_TYPE: undefined as any,
+      };
+   }
+}
+
+/**
+ * 根据异步选项来源创建提供模块选项的提供者
+ * useClass 的选项工厂注册在动态模块内，useExisting 的选项工厂需要在模块可见范围内
+ * @param optionsToken - 模块选项的注入令牌
+ * @param factoryClassMethodKey - 选项工厂上创建选项的方法名
+ * @param options - 异步注册方法的参数
+ */
+function createAsyncOptionsProviders(
+   optionsToken: string | symbol,
+   factoryClassMethodKey: string,
+   options: ConfigurableModuleAsyncOptions<any, any>
+): Provider[] {
+   if (options.useFactory) {
+      return [
+         {
+            provide: optionsToken,
+            useFactory: options.useFactory,
+            inject: options.inject ?? [],
+         },
+      ];
+   }
+
+   const factoryClass = options.useClass ?? options.useExisting;
+   if (!factoryClass) {
+      throw new Error(
+         `Invalid configurable module options: "useFactory", "useClass" or "useExisting" is required.`
+      );
+   }
+
+   const providers: Provider[] = [
+      {
+         provide: optionsToken,
+         useFactory: async (factory) => factory[factoryClassMethodKey](),
+         inject: [factoryClass],
+      },
+   ];
+   if (options.useClass) {
+      providers.push({ provide: options.useClass, useClass: options.useClass });
+   }
+   return providers;
+}
@@ -0,0 +1,6 @@
+/** 生成的同步静态方法的默认名称 */
+export const DEFAULT_METHOD_KEY = "register";
+/** 选项工厂类上创建选项的默认方法名 */
+export const DEFAULT_FACTORY_CLASS_METHOD_KEY = "create";
+/** 异步静态方法名的后缀，如 register -> registerAsync */
+export const ASYNC_METHOD_SUFFIX = "Async";
@@ -0,0 +1,4 @@
+export * from "./constants";
+export * from "./interfaces";
+export * from "./configurable-module.builder";
+export * from "./conditional.module";
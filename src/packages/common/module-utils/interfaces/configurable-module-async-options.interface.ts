@@ -0,0 +1,52 @@
+import { Type } from "../../interfaces/type.interface";
+import { ModuleMetadata } from "../../interfaces/modules/module-metadata.interface";
+import { FactoryProvider } from "../../interfaces/modules/provider.interface";
+import { DEFAULT_FACTORY_CLASS_METHOD_KEY } from "../constants";
+import { ConfigurableModuleExtras } from "./configurable-module-extras.interface";
+
+/**
+ * 通过 useClass 或 useExisting 提供模块选项的工厂类
+ * 方法名默认为 create，可通过 setFactoryMethodName 修改
+ *
+ * @publicApi
+ */
+export type ConfigurableModuleOptionsFactory<
+   ModuleOptions,
+   FactoryClassMethodKey extends string = typeof DEFAULT_FACTORY_CLASS_METHOD_KEY
+> = Record<
+   `${FactoryClassMethodKey}`,
+   () => Promise<ModuleOptions> | ModuleOptions
+>;
+
+/**
+ * 异步注册方法的参数
+ * useFactory、useClass 和 useExisting 三者选其一
+ *
+ * @publicApi
+ */
+export interface ConfigurableModuleAsyncOptions<
+   ModuleOptions,
+   FactoryClassMethodKey extends string = typeof DEFAULT_FACTORY_CLASS_METHOD_KEY
+> extends Pick<ModuleMetadata, "imports">,
+      ConfigurableModuleExtras {
+   /**
+    * 复用已在可见范围内注册的选项工厂
+    */
+   useExisting?: Type<
+      ConfigurableModuleOptionsFactory<ModuleOptions, FactoryClassMethodKey>
+   >;
+   /**
+    * 在动态模块中注册并实例化选项工厂
+    */
+   useClass?: Type<
+      ConfigurableModuleOptionsFactory<ModuleOptions, FactoryClassMethodKey>
+   >;
+   /**
+    * 返回模块选项的工厂函数，可以是异步的
+    */
+   useFactory?: (...args: any[]) => Promise<ModuleOptions> | ModuleOptions;
+   /**
+    * 注入 useFactory 的依赖
+    */
+   inject?: FactoryProvider["inject"];
+}
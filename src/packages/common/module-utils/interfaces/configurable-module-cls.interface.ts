@@ -0,0 +1,34 @@
+import { DynamicModule } from "../../interfaces/modules/dynamic-module.interface";
+import {
+   ASYNC_METHOD_SUFFIX,
+   DEFAULT_FACTORY_CLASS_METHOD_KEY,
+   DEFAULT_METHOD_KEY,
+} from "../constants";
+import { ConfigurableModuleAsyncOptions } from "./configurable-module-async-options.interface";
+import { ConfigurableModuleExtras } from "./configurable-module-extras.interface";
+
+/**
+ * ConfigurableModuleBuilder 生成的模块基类
+ * 模块类继承它后获得同步和异步两个静态注册方法
+ *
+ * @publicApi
+ */
+export type ConfigurableModuleCls<
+   ModuleOptions,
+   MethodKey extends string = typeof DEFAULT_METHOD_KEY,
+   FactoryClassMethodKey extends string = typeof DEFAULT_FACTORY_CLASS_METHOD_KEY
+> = {
+   new (): any;
+} & Record<
+   `${MethodKey}`,
+   (options: ModuleOptions & ConfigurableModuleExtras) => DynamicModule
+> &
+   Record<
+      `${MethodKey}${typeof ASYNC_METHOD_SUFFIX}`,
+      (
+         options: ConfigurableModuleAsyncOptions<
+            ModuleOptions,
+            FactoryClassMethodKey
+         >
+      ) => DynamicModule
+   >;
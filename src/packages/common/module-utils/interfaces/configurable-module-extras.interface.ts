@@ -0,0 +1,18 @@
+import { Provider } from "../../interfaces/modules/provider.interface";
+
+/**
+ * 同步和异步注册方法都支持的模块定义选项
+ * 这些字段不会出现在注入的模块选项中
+ *
+ * @publicApi
+ */
+export interface ConfigurableModuleExtras {
+   /**
+    * 为 true 时生成的动态模块注册为全局模块
+    */
+   isGlobal?: boolean;
+   /**
+    * 额外注册到动态模块中的提供者
+    */
+   extraProviders?: Provider[];
+}
@@ -0,0 +1,42 @@
+import { ConfigurableModuleAsyncOptions } from "./configurable-module-async-options.interface";
+import { ConfigurableModuleCls } from "./configurable-module-cls.interface";
+import { ConfigurableModuleExtras } from "./configurable-module-extras.interface";
+
+/**
+ * ConfigurableModuleBuilder.build() 的返回值
+ *
+ * @publicApi
+ */
+export interface ConfigurableModuleHost<
+   ModuleOptions = Record<string, unknown>,
+   MethodKey extends string = string,
+   FactoryClassMethodKey extends string = string
+> {
+   /**
+    * 模块类需要继承的基类
+    * @example
+    * export class DatabaseModule extends ConfigurableModuleClass {}
+    */
+   ConfigurableModuleClass: ConfigurableModuleCls<
+      ModuleOptions,
+      MethodKey,
+      FactoryClassMethodKey
+   >;
+   /**
+    * 注入模块选项的令牌
+    * @example
+    * constructor(@Inject(MODULE_OPTIONS_TOKEN) options: DatabaseOptions) {}
+    */
+   MODULE_OPTIONS_TOKEN: string | symbol;
+   /**
+    * 同步注册方法参数的类型，只能在类型位置使用（typeof OPTIONS_TYPE）
+    */
+   OPTIONS_TYPE: ModuleOptions & ConfigurableModuleExtras;
+   /**
+    * 异步注册方法参数的类型，只能在类型位置使用（typeof ASYNC_OPTIONS_TYPE）
+    */
+   ASYNC_OPTIONS_TYPE: ConfigurableModuleAsyncOptions<
+      ModuleOptions,
+      FactoryClassMethodKey
+   >;
+}
@@ -0,0 +1,4 @@
+export * from "./configurable-module-extras.interface";
+export * from "./configurable-module-async-options.interface";
+export * from "./configurable-module-cls.interface";
+export * from "./configurable-module-host.interface";
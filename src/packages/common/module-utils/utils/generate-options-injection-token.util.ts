@@ -0,0 +1,12 @@
+import { randomUUID } from "crypto";
+
+/**
+ * 生成模块选项的注入令牌
+ * 指定模块名时生成可读的令牌，否则生成唯一令牌，避免多个可配置模块相互覆盖
+ * @param moduleName - 模块名
+ */
+export function generateOptionsInjectionToken(moduleName?: string) {
+   return moduleName
+      ? `${moduleName.toUpperCase()}_MODULE_OPTIONS`
+      : `CONFIGURABLE_MODULE_OPTIONS[${randomUUID()}]`;
+}
@@ -0,0 +1,20 @@
+import { ForwardReference } from "../interfaces/modules/forward-reference.interface";
+
+/**
+ * 创建前向引用
+ * 用于引用尚未定义的类（循环导入的模块或循环依赖的提供者）
+ * @param fn - 返回被引用类的函数
+ * @returns 前向引用对象
+ */
+export const forwardRef = (fn: () => any): ForwardReference => ({
+   forwardRef: fn,
+});
+
+/**
+ * 检查是否为前向引用
+ * @param value - 要检查的值
+ */
+export const isForwardReference = (value: any): value is ForwardReference =>
+   !!value &&
+   typeof value === "object" &&
+   typeof value.forwardRef === "function";
@@ -0,0 +1,108 @@
+import "reflect-metadata";
+
+// TypeScript 只在运行时存在 Symbol.metadata 时才为标准装饰器创建 context.metadata
+(Symbol as any).metadata ??= Symbol.for("Symbol.metadata");
+
+/**
+ * 同时支持旧版（experimentalDecorators）和 TC39 标准装饰器的类装饰器
+ */
+export type UniversalClassDecorator = ClassDecorator &
+   (<T extends abstract new (...args: any[]) => any>(
+      target: T,
+      context: ClassDecoratorContext<T>
+   ) => void);
+
+/**
+ * 同时支持旧版（experimentalDecorators）和 TC39 标准装饰器的方法装饰器
+ */
+export type UniversalMethodDecorator = MethodDecorator &
+   ((
+      target: (...args: any[]) => any,
+      context: ClassMethodDecoratorContext
+   ) => void);
+
+/**
+ * TC39 标准装饰器的类字段装饰器
+ */
+export type StandardFieldDecorator = (
+   target: undefined,
+   context: ClassFieldDecoratorContext
+) => void;
+
+/**
+ * 检查装饰器的第二个参数是否为标准装饰器的上下文对象
+ * 旧版装饰器的第二个参数为属性名或 undefined
+ * @param value - 装饰器的第二个参数
+ */
+export const isStandardDecoratorContext = (
+   value: unknown
+): value is DecoratorContext =>
+   !!value &&
+   typeof value === "object" &&
+   typeof (value as DecoratorContext).kind === "string";
+
+/**
+ * 获取方法装饰器所装饰的方法
+ * 标准装饰器直接接收方法，旧版装饰器从属性描述符中获取
+ * @param target - 标准装饰器的方法，或旧版装饰器的原型对象
+ * @param keyOrContext - 标准装饰器的上下文，或旧版装饰器的属性名
+ * @param descriptor - 旧版装饰器的属性描述符
+ */
+export function getDecoratedMethod(
+   target: any,
+   keyOrContext: unknown,
+   descriptor?: TypedPropertyDescriptor<any>
+): Function {
+   return isStandardDecoratorContext(keyOrContext) ? target : descriptor.value;
+}
+
+/**
+ * 检查标准装饰器是否用于实例字段，属性注入只支持实例字段
+ * @param context - 标准装饰器的上下文
+ * @param decoratorName - 装饰器名，用于错误信息
+ */
+export function assertStandardInstanceField(
+   context: DecoratorContext,
+   decoratorName: string
+): asserts context is ClassFieldDecoratorContext {
+   if (context.kind !== "field" || context.static) {
+      throw new Error(
+         `${decoratorName} with standard decorators can only be applied to instance fields, "${String(context.name)}" is not one.`
+      );
+   }
+}
+
+/**
+ * 向标准装饰器的类元数据追加一项，基类的元数据不受影响
+ * 类元数据由类装饰器通过 defineStandardClassMetadata 写入 Reflect 元数据
+ * @param context - 标准装饰器的上下文
+ * @param key - 元数据键
+ * @param item - 追加的元数据项
+ */
+export function appendStandardMetadata(
+   context: DecoratorContext,
+   key: string,
+   item: unknown
+) {
+   const metadata = context.metadata;
+   const own = Object.hasOwn(metadata, key) ? (metadata[key] as any[]) : [];
+   metadata[key] = [...own, item];
+}
+
+/**
+ * 将标准装饰器收集到 context.metadata 中的类自身元数据写入 Reflect 元数据
+ * 成员装饰器先于类装饰器执行，此时成员的元数据已全部收集
+ * @param target - 被装饰的类
+ * @param context - 类装饰器的上下文，旧版装饰器为 undefined
+ */
+export function defineStandardClassMetadata(
+   target: Function,
+   context: unknown
+) {
+   if (!isStandardDecoratorContext(context) || !context.metadata) {
+      return;
+   }
+   for (const key of Object.keys(context.metadata)) {
+      Reflect.defineMetadata(key, context.metadata[key], target);
+   }
+}
@@ -19,6 +19,13 @@ export const MIDDLEWARE_MESSAGES = {
    APPLYING_MIDDLEWARE_TO_ROUTES: `Applying middleware to routes...`,
 };
 
+/** 当前请求对象的注入令牌 */
+export const REQUEST = "REQUEST";
+/** 注入瞬态提供者的类的注入令牌 */
+export const INQUIRER = "INQUIRER";
+/** 请求对象上保存上下文标识的键 */
+export const REQUEST_CONTEXT_ID = Symbol("REQUEST_CONTEXT_ID");
+
 export const APP_INTERCEPTOR = "APP_INTERCEPTOR";
 export const APP_PIPE = "APP_PIPE";
 export const APP_GUARD = "APP_GUARD";
@@ -20,8 +20,9 @@ export class ControllerRegistry {
     * 初始化模块中的所有控制器
     * 将控制器提交给 ProviderCollector 进行依赖注入
     * @param controllers - 包含控制器的数组
+    * @param module - 控制器所属的模块
     */
-   public async initializeControllers(controllers: any[]) {
+   public async initializeControllers(controllers: any[], module?: any) {
       if (!this.providerCollector) {
          Logger.error("ProviderCollector not initialized");
       }
@@ -34,8 +35,10 @@ export class ControllerRegistry {
                )}`,
                "ControllerRegistry"
             );
-            // provider 的依赖注入
-            await this.providerCollector.collectProviders(controller);
+            // 控制器已在模块注册时按依赖顺序实例化，这里只补充尚未创建的实例
+            if (!this.providerCollector.hasProvider(controller, module)) {
+               await this.providerCollector.collectProviders(controller, module);
+            }
 
             // 控制器的收集注册
             if (this.exceptionFilterManager) {
@@ -43,9 +46,12 @@ export class ControllerRegistry {
                const controllerExceptionFilters =
                   Reflect.getMetadata(EXCEPTION_FILTERS_METADATA, controller) ||
                   [];
-               controllerExceptionFilters.forEach((filter) => {
-                  this.exceptionFilterManager.addExceptionFilter(filter);
-               });
+               for (const filter of controllerExceptionFilters) {
+                  await this.exceptionFilterManager.addExceptionFilter(
+                     filter,
+                     module
+                  );
+               }
 
                // 方法级过滤器
                const prototype = controller.prototype;
@@ -55,9 +61,12 @@ export class ControllerRegistry {
                   const methodExceptionFilters =
                      Reflect.getMetadata(EXCEPTION_FILTERS_METADATA, method) ||
                      [];
-                  methodExceptionFilters.forEach((filter) => {
-                     this.exceptionFilterManager.addExceptionFilter(filter);
-                  });
+                  for (const filter of methodExceptionFilters) {
+                     await this.exceptionFilterManager.addExceptionFilter(
+                        filter,
+                        module
+                     );
+                  }
                }
             }
          } catch (error) {
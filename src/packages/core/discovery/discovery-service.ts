@@ -0,0 +1,199 @@
+import { randomUUID } from "crypto";
+import { isModule } from "@/packages/shared/shared.utils";
+import { ModuleRegistry } from "@/packages/core/modules/module-registry";
+import { ProviderCollector } from "@/packages/core/providers/provider-collector";
+import { InstanceWrapper } from "@/packages/core/interfaces/instance-wrapper.interface";
+import { getTokenName } from "@/packages/core/errors/messages";
+
+/**
+ * 由 DiscoveryService.createDecorator() 创建的标记装饰器
+ * KEY 为装饰器写入的元数据键
+ *
+ * @publicApi
+ */
+export type DiscoverableDecorator<T> = ((opts?: T) => ClassDecorator &
+   MethodDecorator) & {
+   KEY: string;
+};
+
+/**
+ * @publicApi
+ */
+export interface DiscoveryOptions {
+   /**
+    * 只在这些模块中查找，未指定时查找所有已注册模块
+    */
+   include?: Function[];
+   /**
+    * 只返回类上带有该元数据键的提供者或控制器
+    */
+   metadataKey?: string;
+}
+
+/**
+ * 发现服务类
+ * 以 DiscoveryService 为令牌注入，整个应用共享一个实例
+ * 负责：
+ * 1. 列出已注册模块中的提供者和控制器及其静态实例
+ * 2. 按模块或元数据键过滤结果
+ * 3. 创建可被查询的标记装饰器并读取其元数据
+ */
+export class DiscoveryService {
+   constructor(
+      private readonly moduleRegistry: ModuleRegistry,
+      private readonly providerCollector: ProviderCollector
+   ) {}
+
+   /**
+    * 创建标记装饰器，可用于类和方法
+    * 装饰器参数作为元数据值，之后通过 getProviders({ metadataKey })
+    * 或 getMetadataByDecorator() 查询
+    * @returns 带有元数据键 KEY 的装饰器工厂
+    */
+   public static createDecorator<T>(): DiscoverableDecorator<T> {
+      const metadataKey = randomUUID();
+      const decoratorFactory = (opts?: T) =>
+         ((
+            target: object | Function,
+            key?: string | symbol,
+            descriptor?: PropertyDescriptor
+         ) => {
+            // 方法装饰器写在方法函数上，类装饰器写在类上
+            Reflect.defineMetadata(
+               metadataKey,
+               opts ?? {},
+               descriptor ? descriptor.value : target
+            );
+            return descriptor ?? target;
+         }) as ClassDecorator & MethodDecorator;
+      decoratorFactory.KEY = metadataKey;
+      return decoratorFactory as DiscoverableDecorator<T>;
+   }
+
+   /**
+    * 获取已注册模块中的提供者
+    * 请求作用域和瞬态提供者没有静态实例，instance 为 undefined
+    * @param options - 过滤选项
+    * @returns 提供者信息列表
+    */
+   public getProviders(options: DiscoveryOptions = {}): InstanceWrapper[] {
+      const wrappers = this.getModules(options).flatMap((module) =>
+         [...(this.moduleRegistry.getModuleProviders(module) ?? [])].map(
+            (token) => this.createProviderWrapper(token, module)
+         )
+      );
+      return this.filterByMetadataKey(wrappers, options.metadataKey);
+   }
+
+   /**
+    * 获取已注册模块中的控制器
+    * @param options - 过滤选项
+    * @returns 控制器信息列表
+    */
+   public getControllers(options: DiscoveryOptions = {}): InstanceWrapper[] {
+      const wrappers = this.getModules(options).flatMap((module) =>
+         this.moduleRegistry
+            .getModuleControllers(module)
+            .map((controller) => this.createControllerWrapper(controller, module))
+      );
+      return this.filterByMetadataKey(wrappers, options.metadataKey);
+   }
+
+   /**
+    * 读取标记装饰器写入的元数据
+    * @param decorator - createDecorator() 创建的装饰器
+    * @param wrapper - 提供者或控制器信息
+    * @param methodKey - 方法名，未指定时读取类上的元数据
+    * @returns 装饰器参数，未标记时返回 undefined
+    */
+   public getMetadataByDecorator<T extends DiscoverableDecorator<any>>(
+      decorator: T,
+      wrapper: InstanceWrapper,
+      methodKey?: string
+   ): T extends DiscoverableDecorator<infer R> ? R | undefined : never {
+      const target = methodKey
+         ? wrapper.metatype?.prototype?.[methodKey]
+         : wrapper.metatype;
+      return target ? Reflect.getMetadata(decorator.KEY, target) : undefined;
+   }
+
+   /**
+    * 获取需要查找的模块
+    * @param options - 过滤选项
+    */
+   private getModules({ include }: DiscoveryOptions) {
+      const modules = this.moduleRegistry.getModules();
+      return include
+         ? modules.filter((module) => include.includes(module))
+         : modules;
+   }
+
+   /**
+    * 只保留类上带有指定元数据键的条目
+    * @param wrappers - 提供者或控制器信息列表
+    * @param metadataKey - 元数据键
+    */
+   private filterByMetadataKey(
+      wrappers: InstanceWrapper[],
+      metadataKey?: string
+   ) {
+      if (!metadataKey) {
+         return wrappers;
+      }
+      return wrappers.filter(
+         ({ metatype }) =>
+            metatype && Reflect.getMetadata(metadataKey, metatype) !== undefined
+      );
+   }
+
+   /**
+    * 根据提供者定义创建提供者信息
+    * @param token - 提供者令牌
+    * @param module - 宿主模块
+    */
+   private createProviderWrapper(token: any, module: any): InstanceWrapper {
+      const definition = this.moduleRegistry.findProviderDefinitionByToken(
+         token,
+         module
+      );
+      const isDependencyTreeStatic =
+         this.providerCollector.isDependencyTreeStatic(definition, module);
+      const instance = isDependencyTreeStatic
+         ? this.providerCollector.getProvider(token, module)
+         : undefined;
+      const metatype = isModule(definition)
+         ? definition
+         : definition?.useClass ?? instance?.constructor;
+      return {
+         token,
+         name: getTokenName(token),
+         metatype,
+         instance,
+         host: module,
+         isDependencyTreeStatic,
+      };
+   }
+
+   /**
+    * 创建控制器信息
+    * @param controller - 控制器类
+    * @param module - 宿主模块
+    */
+   private createControllerWrapper(
+      controller: any,
+      module: any
+   ): InstanceWrapper {
+      const isDependencyTreeStatic =
+         this.providerCollector.isDependencyTreeStatic(controller, module);
+      return {
+         token: controller,
+         name: controller.name,
+         metatype: controller,
+         instance: isDependencyTreeStatic
+            ? this.providerCollector.getProvider(controller, module)
+            : undefined,
+         host: module,
+         isDependencyTreeStatic,
+      };
+   }
+}
@@ -0,0 +1,11 @@
+import { ASYNC_PROVIDER_INJECTION_MESSAGE } from "../messages";
+import { RuntimeException } from "./runtime.exception";
+
+/**
+ * inject() 按需创建提供者时，依赖树中的异步工厂无法同步取得结果时抛出
+ */
+export class AsyncProviderInjectionException extends RuntimeException {
+   constructor(dependant: any, token: any, module: any) {
+      super(ASYNC_PROVIDER_INJECTION_MESSAGE(dependant, token, module));
+   }
+}
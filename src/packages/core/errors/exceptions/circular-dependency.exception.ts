@@ -0,0 +1,15 @@
+import { CIRCULAR_DEPENDENCY_MESSAGE } from "../messages";
+import { RuntimeException } from "./runtime.exception";
+
+/**
+ * 提供者的构造依赖形成环，且环上没有通过 forwardRef 连接时抛出
+ */
+export class CircularDependencyException extends RuntimeException {
+   constructor(
+      public readonly cycle: any[],
+      modules: any[],
+      canForwardRef: boolean
+   ) {
+      super(CIRCULAR_DEPENDENCY_MESSAGE(cycle, modules, canForwardRef));
+   }
+}
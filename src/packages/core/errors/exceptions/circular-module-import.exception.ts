@@ -0,0 +1,11 @@
+import { CIRCULAR_MODULE_IMPORT_MESSAGE } from "../messages";
+import { RuntimeException } from "./runtime.exception";
+
+/**
+ * 模块之间直接（未使用 forwardRef）循环导入时抛出
+ */
+export class CircularModuleImportException extends RuntimeException {
+   constructor(public readonly cycle: any[]) {
+      super(CIRCULAR_MODULE_IMPORT_MESSAGE(cycle));
+   }
+}
@@ -0,0 +1,15 @@
+export * from "./runtime.exception";
+export * from "./provider-not-visible.exception";
+export * from "./unknown-export.exception";
+export * from "./provider-initialization.exception";
+export * from "./unknown-dependencies.exception";
+export * from "./undecorated-provider.exception";
+export * from "./circular-dependency.exception";
+export * from "./circular-module-import.exception";
+export * from "./unknown-element.exception";
+export * from "./invalid-class-scope.exception";
+export * from "./mixed-multi-provider.exception";
+export * from "./invalid-lazy-module.exception";
+export * from "./injection-context.exception";
+export * from "./async-provider-injection.exception";
+export * from "./request-scoped-dependency.exception";
@@ -0,0 +1,11 @@
+import { INJECTION_CONTEXT_MESSAGE } from "../messages";
+import { RuntimeException } from "./runtime.exception";
+
+/**
+ * 在注入上下文之外调用 inject() 时抛出
+ */
+export class InjectionContextException extends RuntimeException {
+   constructor() {
+      super(INJECTION_CONTEXT_MESSAGE());
+   }
+}
@@ -0,0 +1,11 @@
+import { INVALID_CLASS_SCOPE_MESSAGE } from "../messages";
+import { RuntimeException } from "./runtime.exception";
+
+/**
+ * 通过 ModuleRef.get() 获取请求作用域或瞬态提供者时抛出
+ */
+export class InvalidClassScopeException extends RuntimeException {
+   constructor(token: any) {
+      super(INVALID_CLASS_SCOPE_MESSAGE(token));
+   }
+}
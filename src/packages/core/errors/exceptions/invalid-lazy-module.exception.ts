@@ -0,0 +1,11 @@
+import { INVALID_LAZY_MODULE_MESSAGE } from "../messages";
+import { RuntimeException } from "./runtime.exception";
+
+/**
+ * LazyModuleLoader 的加载函数返回的值中找不到模块时抛出
+ */
+export class InvalidLazyModuleException extends RuntimeException {
+   constructor(loaded: any) {
+      super(INVALID_LAZY_MODULE_MESSAGE(loaded));
+   }
+}
@@ -0,0 +1,11 @@
+import { MIXED_MULTI_PROVIDER_MESSAGE } from "../messages";
+import { RuntimeException } from "./runtime.exception";
+
+/**
+ * 同一令牌既以多提供者又以普通提供者注册时抛出
+ */
+export class MixedMultiProviderException extends RuntimeException {
+   constructor(token: any, module: any) {
+      super(MIXED_MULTI_PROVIDER_MESSAGE(token, module));
+   }
+}
@@ -0,0 +1,32 @@
+import { PROVIDER_INITIALIZATION_MESSAGE } from "../messages";
+import { RuntimeException } from "./runtime.exception";
+
+/**
+ * 提供者工厂执行失败（同步抛出或异步拒绝）时抛出
+ * 异常沿依赖链向上传播时记录每一级依赖方，用于定位失败的提供者
+ */
+export class ProviderInitializationException extends RuntimeException {
+   /** 依赖链，从最外层的依赖方到初始化失败的令牌 */
+   public readonly chain: any[];
+
+   constructor(
+      token: any,
+      public readonly cause: unknown
+   ) {
+      super();
+      this.chain = [token];
+      this.message = PROVIDER_INITIALIZATION_MESSAGE(this.chain, cause);
+   }
+
+   /**
+    * 在依赖链头部记录依赖方
+    * @param dependant - 依赖失败令牌的类或令牌
+    */
+   public addDependant(dependant: any) {
+      if (dependant === undefined) {
+         return;
+      }
+      this.chain.unshift(dependant);
+      this.message = PROVIDER_INITIALIZATION_MESSAGE(this.chain, this.cause);
+   }
+}
@@ -0,0 +1,20 @@
+import { PROVIDER_NOT_VISIBLE_MESSAGE } from "../messages";
+import { RuntimeException } from "./runtime.exception";
+
+/**
+ * 依赖的提供者已注册，但对当前模块不可见时抛出
+ * （宿主模块未导出该提供者，或当前模块未导入宿主模块）
+ */
+export class ProviderNotVisibleException extends RuntimeException {
+   constructor(
+      inquirer: any,
+      token: any,
+      module: any,
+      hostModules: any[],
+      index?: number
+   ) {
+      super(
+         PROVIDER_NOT_VISIBLE_MESSAGE(inquirer, token, module, hostModules, index)
+      );
+   }
+}
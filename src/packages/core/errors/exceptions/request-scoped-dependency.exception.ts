@@ -0,0 +1,14 @@
+import { REQUEST_SCOPED_DEPENDENCY_MESSAGE } from "../messages";
+import { RuntimeException } from "./runtime.exception";
+
+/**
+ * 在请求上下文之外解析依赖请求作用域提供者的依赖时抛出
+ * （中间件、异常过滤器或未指定上下文的 ModuleRef.create()）
+ */
+export class RequestScopedDependencyException extends RuntimeException {
+   constructor(dependant: any, token: any, scopedToken: any, module: any) {
+      super(
+         REQUEST_SCOPED_DEPENDENCY_MESSAGE(dependant, token, scopedToken, module)
+      );
+   }
+}
@@ -0,0 +1,14 @@
+/**
+ * 运行时异常基类
+ * 依赖注入容器在启动或解析阶段抛出的所有错误都继承自该类
+ */
+export class RuntimeException extends Error {
+   constructor(message = "") {
+      super(message);
+      this.name = this.constructor.name;
+   }
+
+   public what(): string {
+      return this.message;
+   }
+}
@@ -0,0 +1,11 @@
+import { UNDECORATED_PROVIDER_MESSAGE } from "../messages";
+import { RuntimeException } from "./runtime.exception";
+
+/**
+ * 以类的形式注册、但没有标记 @Injectable() 的提供者
+ */
+export class UndecoratedProviderException extends RuntimeException {
+   constructor(provider: any, module: any) {
+      super(UNDECORATED_PROVIDER_MESSAGE(provider, module));
+   }
+}
@@ -0,0 +1,28 @@
+import { UNKNOWN_DEPENDENCIES_MESSAGE } from "../messages";
+import { RuntimeException } from "./runtime.exception";
+
+/**
+ * 必需的依赖在当前模块的可见范围内找不到任何提供者时抛出
+ * 构造函数参数依赖给出参数位置，属性依赖给出属性名
+ */
+export class UnknownDependenciesException extends RuntimeException {
+   constructor(
+      dependant: any,
+      token: any,
+      dependencies: any[],
+      index: number | undefined,
+      module: any,
+      key?: string | symbol
+   ) {
+      super(
+         UNKNOWN_DEPENDENCIES_MESSAGE(
+            dependant,
+            token,
+            dependencies,
+            index,
+            module,
+            key
+         )
+      );
+   }
+}
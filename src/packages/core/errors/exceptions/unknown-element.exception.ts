@@ -0,0 +1,11 @@
+import { UNKNOWN_ELEMENT_MESSAGE } from "../messages";
+import { RuntimeException } from "./runtime.exception";
+
+/**
+ * ModuleRef 在查找范围内找不到令牌对应的提供者时抛出
+ */
+export class UnknownElementException extends RuntimeException {
+   constructor(token: any, module?: any) {
+      super(UNKNOWN_ELEMENT_MESSAGE(token, module));
+   }
+}
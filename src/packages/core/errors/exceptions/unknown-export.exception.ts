@@ -0,0 +1,11 @@
+import { UNKNOWN_EXPORT_MESSAGE } from "../messages";
+import { RuntimeException } from "./runtime.exception";
+
+/**
+ * 模块导出了既不属于自身提供者、也不是其导入模块的内容时抛出
+ */
+export class UnknownExportException extends RuntimeException {
+   constructor(token: any, module: any) {
+      super(UNKNOWN_EXPORT_MESSAGE(token, module));
+   }
+}
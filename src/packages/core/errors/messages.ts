@@ -0,0 +1,219 @@
+import { isFunction, isSymbol } from "@/packages/shared/shared.utils";
+
+/**
+ * 获取令牌的可读名称
+ * @param token - 提供者令牌（类、字符串或符号）
+ * @returns 用于错误信息的名称
+ */
+export const getTokenName = (token: any): string => {
+   if (isFunction(token)) {
+      return token.name || "anonymous";
+   }
+   if (isSymbol(token)) {
+      return token.toString();
+   }
+   return String(token);
+};
+
+/**
+ * 获取模块的可读名称
+ * @param module - 模块类
+ * @returns 用于错误信息的名称
+ */
+export const getModuleName = (module: any): string =>
+   module ? getTokenName(module) : "unknown";
+
+export const PROVIDER_NOT_VISIBLE_MESSAGE = (
+   inquirer: any,
+   token: any,
+   module: any,
+   hostModules: any[],
+   index?: number
+) => {
+   const tokenName = getTokenName(token);
+   const moduleName = getModuleName(module);
+   const hosts = hostModules.map(getModuleName).join(", ");
+   const position = index === undefined ? "" : ` at index [${index}]`;
+
+   return (
+      `Nest can't resolve "${tokenName}"${position} required by ${getTokenName(
+         inquirer
+      )}: it is not visible in the ${moduleName} context.\n` +
+      `"${tokenName}" is provided by ${hosts}.\n\n` +
+      `Potential solutions:\n` +
+      `- Add "${tokenName}" to the "exports" of its host module.\n` +
+      `- Add the host module to the "imports" of ${moduleName}.\n` +
+      `- Or mark the host module with @Global() if it should be shared everywhere.`
+   );
+};
+
+export const UNKNOWN_EXPORT_MESSAGE = (token: any, module: any) =>
+   `Nest cannot export a provider/module that is not a part of the currently processed module (${getModuleName(
+      module
+   )}). Please verify whether the exported "${getTokenName(
+      token
+   )}" is available in this particular context.`;
+
+export const PROVIDER_INITIALIZATION_MESSAGE = (chain: any[], cause: unknown) => {
+   const token = chain[chain.length - 1];
+   const reason = cause instanceof Error ? cause.message : String(cause);
+
+   return (
+      `Nest could not initialize "${getTokenName(token)}": ${reason}\n` +
+      `Dependency chain: ${chain.map(getTokenName).join(" -> ")}`
+   );
+};
+
+export const UNKNOWN_DEPENDENCIES_MESSAGE = (
+   dependant: any,
+   token: any,
+   dependencies: any[],
+   index: number | undefined,
+   module: any,
+   key?: string | symbol
+) => {
+   const dependantName = getTokenName(dependant);
+   const tokenName = token === undefined ? "dependency" : getTokenName(token);
+   const moduleName = getModuleName(module);
+   const signature = dependencies.map((dependency, position) =>
+      position === index || dependency === undefined
+         ? "?"
+         : getTokenName(dependency)
+   );
+   const position = index === undefined ? "" : ` at index [${index}]`;
+   // 属性注入没有参数签名，改为指出属性名
+   const [dependantSignature, argument] =
+      key === undefined
+         ? [
+              `${dependantName} (${signature.join(", ")})`,
+              `the argument ${tokenName}${position}`,
+           ]
+         : [dependantName, `the property "${String(key)}" (${tokenName})`];
+
+   return (
+      `Nest can't resolve dependencies of the ${dependantSignature}. Please make sure that ${argument} is available in the ${moduleName} context.\n\n` +
+      `Potential solutions:\n` +
+      `- Is ${moduleName} a valid NestJS module?\n` +
+      `- If ${tokenName} is a provider, is it part of the current ${moduleName}?\n` +
+      `- If ${tokenName} is exported from a separate @Module, is that module imported within ${moduleName}?\n` +
+      `  @Module({\n` +
+      `    imports: [ /* the Module containing ${tokenName} */ ]\n` +
+      `  })\n` +
+      `- If ${tokenName} is not always available, mark it with @Optional().`
+   );
+};
+
+export const UNDECORATED_PROVIDER_MESSAGE = (provider: any, module: any) =>
+   `Nest cannot register the provider ${getTokenName(
+      provider
+   )} in the ${getModuleName(
+      module
+   )} context: the class is not marked with @Injectable().\n` +
+   `Add @Injectable() to ${getTokenName(
+      provider
+   )}, or register it with "useClass", "useFactory" or "useValue".`;
+
+export const CIRCULAR_DEPENDENCY_MESSAGE = (
+   cycle: any[],
+   modules: any[],
+   canForwardRef: boolean
+) => {
+   const cycleNames = cycle.map(getTokenName).join(" -> ");
+   const moduleNames = modules.map(getModuleName).join(", ");
+   const hint = canForwardRef
+      ? `Please make sure that each side of a bidirectional relationship is decorated with "forwardRef()", e.g. @Inject(forwardRef(() => ${getTokenName(
+           cycle[0]
+        )})).`
+      : `Only class providers can be connected with "forwardRef()". ` +
+        `Please move the shared logic into a separate provider to break the cycle.`;
+
+   return (
+      `A circular dependency between providers has been detected: ${cycleNames}.\n` +
+      `Modules involved: ${moduleNames}.\n` +
+      hint
+   );
+};
+
+export const CIRCULAR_MODULE_IMPORT_MESSAGE = (cycle: any[]) =>
+   `A circular dependency between modules has been detected: ${cycle
+      .map(getModuleName)
+      .join(" -> ")}.\n` +
+   `Please make sure that each side of a bidirectional import is wrapped with "forwardRef()", e.g. imports: [forwardRef(() => ${getModuleName(
+      cycle[1]
+   )})].`;
+
+export const UNKNOWN_ELEMENT_MESSAGE = (token: any, module?: any) => {
+   const context = module
+      ? `the ${getModuleName(module)} context`
+      : "any module";
+
+   return `Nest could not find ${getTokenName(
+      token
+   )} element (this provider does not exist in ${context}).`;
+};
+
+export const INVALID_CLASS_SCOPE_MESSAGE = (token: any) =>
+   `${getTokenName(
+      token
+   )} is marked as a scoped provider. Request and transient-scoped providers can't be used in combination with "get()" method. Please, use "resolve()" instead.`;
+
+export const MIXED_MULTI_PROVIDER_MESSAGE = (token: any, module: any) =>
+   `Nest cannot register "${getTokenName(token)}" in the ${getModuleName(
+      module
+   )} context: mixing multi and non-multi providers for the same token is not possible.\n` +
+   `Please add "multi: true" to every registration of "${getTokenName(
+      token
+   )}", or to none of them.`;
+
+export const INVALID_LAZY_MODULE_MESSAGE = (loaded: any) =>
+   `LazyModuleLoader could not find a module in the loaded value (${
+      loaded === null || typeof loaded !== "object"
+         ? String(loaded)
+         : `exports: ${Object.keys(loaded).join(", ") || "none"}`
+   }).\n` +
+   `Please return a module class or a dynamic module from the loader, e.g. "() => import('./reports.module').then((m) => m.ReportsModule)".`;
+
+export const INJECTION_CONTEXT_MESSAGE = () =>
+   `inject() must be called from a provider constructor, a class field initializer or a factory function.\n` +
+   `In async factories, call inject() before the first "await".`;
+
+export const ASYNC_PROVIDER_INJECTION_MESSAGE = (
+   dependant: any,
+   token: any,
+   module: any
+) =>
+   `Nest can't create "${getTokenName(token)}" for ${getTokenName(
+      dependant
+   )} on demand in the ${getModuleName(
+      module
+   )} context: it is provided by an async factory that has not been resolved yet.\n` +
+   `inject() creates missing providers synchronously and cannot wait for async factories.\n\n` +
+   `Potential solutions:\n` +
+   `- Declare "${getTokenName(
+      token
+   )}" as a constructor parameter (or in the "inject" array of the factory) so it is awaited first.\n` +
+   `- Or make the factory of "${getTokenName(token)}" synchronous.`;
+
+export const REQUEST_SCOPED_DEPENDENCY_MESSAGE = (
+   dependant: any,
+   token: any,
+   scopedToken: any,
+   module: any
+) => {
+   const tokenName = getTokenName(token);
+   const scopedName = getTokenName(scopedToken);
+   const via = scopedToken === token ? "" : ` (through "${tokenName}")`;
+
+   return (
+      `Nest can't resolve "${tokenName}" required by ${getTokenName(
+         dependant
+      )} in the ${getModuleName(
+         module
+      )} context: it depends on the request-scoped provider "${scopedName}"${via}, which only exists within a request.\n\n` +
+      `Potential solutions:\n` +
+      `- Resolve ${getTokenName(
+         dependant
+      )} per request, e.g. with ModuleRef.create() or ModuleRef.resolve() and a context id.\n` +
+      `- Or remove the request scope from "${scopedName}" if it does not depend on the request.`
+   );
+};
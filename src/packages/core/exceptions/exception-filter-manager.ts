@@ -8,13 +8,18 @@ export class ExceptionFilterManager {
    private globalExceptionFilters = new Set<ExceptionFilter>();
 
    constructor(
-      private readonly getProviderDependencies: (provider: Type<any>) => any[]
+      private readonly instantiateClass: (
+         provider: Type<any>,
+         module?: any
+      ) => Promise<any>
    ) {}
 
-   public addExceptionFilter(filter: ExceptionFilter | Type<ExceptionFilter>) {
+   public async addExceptionFilter(
+      filter: ExceptionFilter | Type<ExceptionFilter>,
+      module?: any
+   ) {
       if (typeof filter === "function") {
-         const dependencies = this.getProviderDependencies(filter);
-         const instance = new (filter as any)(...dependencies);
+         const instance = await this.instantiateClass(filter, module);
          this.setFilterMetadata(filter, instance);
          this.exceptionFilters.unshift(instance);
          Logger.log(
@@ -26,22 +31,23 @@ export class ExceptionFilterManager {
       }
    }
 
-   public addGlobalFilters(
+   public async addGlobalFilters(
       ...filters: (ExceptionFilter | Type<ExceptionFilter>)[]
    ) {
-      const instantiatedFilters = filters.map((filter) => {
+      const instantiatedFilters = [];
+      for (const filter of filters) {
          if (typeof filter === "function") {
-            const dependencies = this.getProviderDependencies(filter);
-            const instance = new (filter as any)(...dependencies);
+            const instance = await this.instantiateClass(filter);
             this.setFilterMetadata(filter, instance);
             Logger.log(
                `Instantiated global filter: ${instance.constructor.name}`,
                "ExceptionFilterManager"
             );
-            return instance;
+            instantiatedFilters.push(instance);
+         } else {
+            instantiatedFilters.push(filter);
          }
-         return filter;
-      });
+      }
 
       this.globalExceptionFilters = new Set([
          ...this.globalExceptionFilters,
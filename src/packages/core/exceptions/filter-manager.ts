@@ -8,11 +8,11 @@ export class FilterManager {
       private readonly exceptionFilterManager: any
    ) {}
 
-   public initializeFilters() {
+   public async initializeFilters() {
       const globalFilters =
          this.providerCollector.getProvidersByToken(APP_FILTER);
       if (globalFilters.length > 0) {
-         this.exceptionFilterManager.addGlobalFilters(...globalFilters);
+         await this.exceptionFilterManager.addGlobalFilters(...globalFilters);
       }
    }
 }
@@ -0,0 +1,101 @@
+import { isObject } from "@/packages/shared/shared.utils";
+import { REQUEST_CONTEXT_ID } from "../constants";
+import {
+   ContextIdResolver,
+   ContextIdResolverFn,
+   ContextIdStrategy,
+} from "../interfaces/context-id-strategy.interface";
+
+/**
+ * 请求上下文标识
+ * 每个请求拥有独立的上下文，请求作用域的提供者按上下文缓存实例
+ */
+export interface ContextId {
+   readonly id: number;
+   /** 持久提供者使用的上下文解析函数，由 ContextIdStrategy 提供 */
+   getParent?: ContextIdResolverFn;
+   /** 持久依赖树中 REQUEST 令牌注入的值 */
+   payload?: unknown;
+}
+
+/**
+ * 创建新的上下文标识
+ * @returns 新的上下文标识
+ */
+export function createContextId(): ContextId {
+   /**
+    * 使用随机数作为标识，引用本身作为实例缓存的键
+    */
+   return { id: Math.random() };
+}
+
+/**
+ * 上下文标识工厂
+ * 负责：
+ * 1. 创建上下文标识
+ * 2. 获取与请求绑定的上下文标识
+ * 3. 通过 ContextIdStrategy 为持久提供者选择上下文
+ */
+export class ContextIdFactory {
+   /** 当前使用的上下文标识策略 */
+   private static strategy?: ContextIdStrategy;
+
+   /**
+    * 创建新的上下文标识
+    * @returns 新的上下文标识
+    */
+   public static create(): ContextId {
+      return createContextId();
+   }
+
+   /**
+    * 获取与请求绑定的上下文标识
+    * 请求尚未绑定时创建新的上下文标识，并交给策略关联持久上下文
+    * @param request - 当前请求对象
+    * @returns 请求的上下文标识
+    */
+   public static getByRequest<T extends Record<any, any> = any>(
+      request: T
+   ): ContextId {
+      if (!request) {
+         return ContextIdFactory.create();
+      }
+      if (request[REQUEST_CONTEXT_ID as any]) {
+         return request[REQUEST_CONTEXT_ID as any];
+      }
+
+      const contextId = ContextIdFactory.create();
+      Object.defineProperty(request, REQUEST_CONTEXT_ID, {
+         value: contextId,
+         enumerable: false,
+         writable: false,
+         configurable: false,
+      });
+      if (!ContextIdFactory.strategy) {
+         return contextId;
+      }
+
+      const resolver = ContextIdFactory.strategy.attach(contextId, request);
+      if (ContextIdFactory.isResolverWithPayload(resolver)) {
+         contextId.getParent = resolver.resolve;
+         contextId.payload = resolver.payload;
+      } else {
+         contextId.getParent = resolver;
+      }
+      return contextId;
+   }
+
+   /**
+    * 设置全局使用的上下文标识策略
+    * @param strategy - 上下文标识策略
+    */
+   public static apply(strategy: ContextIdStrategy) {
+      ContextIdFactory.strategy = strategy;
+   }
+
+   private static isResolverWithPayload(
+      resolver: ContextIdResolverFn | ContextIdResolver | undefined
+   ): resolver is ContextIdResolver {
+      return isObject(resolver);
+   }
+}
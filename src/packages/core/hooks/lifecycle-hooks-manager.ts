@@ -0,0 +1,101 @@
+import { ModuleRegistry } from "../modules/module-registry";
+import { ProviderCollector } from "../providers/provider-collector";
+
+/** 生命周期钩子方法名 */
+type LifecycleHook =
+   | "onModuleInit"
+   | "onApplicationBootstrap"
+   | "onModuleDestroy"
+   | "beforeApplicationShutdown"
+   | "onApplicationShutdown";
+
+/**
+ * 生命周期钩子管理器类
+ * 负责：
+ * 1. 按模块依赖顺序调用启动钩子（onModuleInit、onApplicationBootstrap）
+ * 2. 按相反顺序调用关闭钩子（onModuleDestroy、beforeApplicationShutdown、onApplicationShutdown）
+ * 3. 等待钩子返回的 Promise 完成后再进入下一个模块
+ * 只有静态依赖树中的提供者和控制器实例会被调用，请求作用域和瞬态实例不参与
+ */
+export class LifecycleHooksManager {
+   constructor(
+      private readonly moduleRegistry: ModuleRegistry,
+      private readonly providerCollector: ProviderCollector
+   ) {}
+
+   /**
+    * 调用模块的 onModuleInit 钩子
+    * @param modules - 要调用的模块，默认为所有已注册模块
+    */
+   public async callInitHook(modules = this.moduleRegistry.getModules()) {
+      await this.callHook(modules, "onModuleInit");
+   }
+
+   /**
+    * 调用模块的 onApplicationBootstrap 钩子
+    * @param modules - 要调用的模块，默认为所有已注册模块
+    */
+   public async callBootstrapHook(modules = this.moduleRegistry.getModules()) {
+      await this.callHook(modules, "onApplicationBootstrap");
+   }
+
+   /**
+    * 调用所有模块的 onModuleDestroy 钩子
+    */
+   public async callDestroyHook() {
+      await this.callHook(this.getReversedModules(), "onModuleDestroy");
+   }
+
+   /**
+    * 调用所有模块的 beforeApplicationShutdown 钩子
+    * @param signal - 触发关闭的系统信号
+    */
+   public async callBeforeShutdownHook(signal?: string) {
+      await this.callHook(
+         this.getReversedModules(),
+         "beforeApplicationShutdown",
+         signal
+      );
+   }
+
+   /**
+    * 调用所有模块的 onApplicationShutdown 钩子
+    * @param signal - 触发关闭的系统信号
+    */
+   public async callShutdownHook(signal?: string) {
+      await this.callHook(
+         this.getReversedModules(),
+         "onApplicationShutdown",
+         signal
+      );
+   }
+
+   /**
+    * 依次调用每个模块中实例的钩子
+    * 同一模块内的钩子并行执行，全部完成后再处理下一个模块
+    * @param modules - 按调用顺序排列的模块
+    * @param hook - 钩子方法名
+    * @param args - 传给钩子的参数
+    */
+   private async callHook(
+      modules: any[],
+      hook: LifecycleHook,
+      ...args: any[]
+   ) {
+      for (const module of modules) {
+         const instances = this.providerCollector
+            .getModuleInstances(module)
+            .filter((instance) => typeof instance?.[hook] === "function");
+         await Promise.all(
+            instances.map((instance) => instance[hook](...args))
+         );
+      }
+   }
+
+   /**
+    * 关闭钩子按依赖顺序的相反顺序调用，导入方先于被导入的模块销毁
+    */
+   private getReversedModules() {
+      return this.moduleRegistry.getModules().reverse();
+   }
+}
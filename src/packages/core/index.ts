@@ -1,3 +1,12 @@
 export * from "./nest-factory";
 export * from "./nest-application";
+export * from "./nest-application-context";
 export * from "./logger-server";
+export * from "./helpers/context-id-factory";
+export * from "./interfaces/context-id-strategy.interface";
+export * from "./modules/module-ref";
+export * from "./modules/lazy-module-loader";
+export * from "./providers/inject";
+export * from "./interfaces/instance-wrapper.interface";
+export * from "./metadata-scanner";
+export * from "./discovery/discovery-service";
@@ -0,0 +1,43 @@
+import type { ContextId } from "../helpers/context-id-factory";
+
+/**
+ * 宿主组件信息
+ * 解析上下文标识时描述正在实例化的提供者
+ */
+export interface HostComponentInfo {
+   /** 提供者令牌 */
+   token: any;
+   /** 提供者的依赖树是否持久 */
+   isTreeDurable: boolean;
+}
+
+/** 根据宿主组件信息返回实际使用的上下文标识 */
+export type ContextIdResolverFn = (info: HostComponentInfo) => ContextId;
+
+/**
+ * 带负载的上下文标识解析器
+ * 负载会代替原始请求注入到持久提供者的 REQUEST 令牌中
+ */
+export interface ContextIdResolver {
+   /** 持久依赖树中 REQUEST 令牌注入的值 */
+   payload: unknown;
+   /** 上下文标识解析函数 */
+   resolve: ContextIdResolverFn;
+}
+
+/**
+ * 上下文标识策略
+ * 负责为每个请求决定持久提供者所使用的上下文（例如按租户聚合）
+ */
+export interface ContextIdStrategy<T = any> {
+   /**
+    * 将上下文标识与请求关联
+    * @param contextId - 当前请求的上下文标识
+    * @param request - 当前请求对象
+    * @returns 上下文标识解析器，返回 undefined 时使用当前请求的上下文
+    */
+   attach(
+      contextId: ContextId,
+      request: T
+   ): ContextIdResolverFn | ContextIdResolver | undefined;
+}
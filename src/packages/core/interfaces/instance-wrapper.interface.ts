@@ -0,0 +1,17 @@
+/**
+ * DiscoveryService 返回的提供者或控制器信息
+ */
+export interface InstanceWrapper<T = any> {
+   /** 提供者令牌，控制器为控制器类 */
+   token: any;
+   /** 可读名称 */
+   name: string;
+   /** 实例的类，值提供者和工厂提供者取实例的构造函数 */
+   metatype: Function | undefined;
+   /** 静态实例，请求作用域或瞬态提供者为 undefined */
+   instance: T | undefined;
+   /** 宿主模块 */
+   host: any;
+   /** 依赖树是否静态（全局共享一个实例） */
+   isDependencyTreeStatic: boolean;
+}
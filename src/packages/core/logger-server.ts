@@ -1,10 +1,36 @@
 import * as clc from "cli-color";
 
+/**
+ * 日志类
+ * 负责：
+ * 1. 输出带进程号、时间戳和上下文的彩色日志
+ * 2. 显示与同一实例上一条日志的时间间隔
+ * 每个应用实例持有自己的 Logger，静态方法使用进程内共享的默认实例
+ */
 export class Logger {
-   private static lastLogTime = Date.now();
-   private static readonly logger = console;
+   /** 静态方法使用的默认实例 */
+   private static readonly staticInstance = new Logger();
+   /** 上一条日志的时间，实例之间互不影响 */
+   private lastLogTime = Date.now();
+
+   /**
+    * @param context - 默认的日志上下文
+    */
+   constructor(private readonly context: string = "") {}
 
    static log(message: string, context: string = "") {
+      this.staticInstance.log(message, context);
+   }
+
+   static error(message: string, trace: string = "", context: string = "") {
+      this.staticInstance.error(message, trace, context);
+   }
+
+   static warn(message: string, context: string = "") {
+      this.staticInstance.warn(message, context);
+   }
+
+   log(message: string, context: string = this.context) {
       const timestamp = new Date().toLocaleString();
       const pid = process.pid;
       const currentTime = Date.now();
@@ -21,7 +47,11 @@ export class Logger {
       this.lastLogTime = currentTime;
    }
 
-   static error(message: string, trace: string = "", context: string = "") {
+   error(
+      message: string,
+      trace: string = "",
+      context: string = this.context
+   ) {
       const timestamp = new Date().toLocaleString();
       const pid = process.pid;
       const currentTime = Date.now();
@@ -40,7 +70,7 @@ export class Logger {
       this.lastLogTime = currentTime;
    }
 
-   static warn(message: string, context: string = "") {
+   warn(message: string, context: string = this.context) {
       const timestamp = new Date().toLocaleString();
       const pid = process.pid;
       const currentTime = Date.now();
@@ -0,0 +1,52 @@
+/**
+ * 元数据扫描器类
+ * 负责：
+ * 1. 列出原型链上的所有方法名（不含构造函数和访问器）
+ * 2. 缓存每个原型的扫描结果
+ */
+export class MetadataScanner {
+   /** 方法名缓存 prototype: method names */
+   private readonly cachedMethodNames = new WeakMap<object, string[]>();
+
+   /**
+    * 获取原型链上的所有方法名，子类覆盖的方法只返回一次
+    * @param prototype - 类原型
+    * @returns 方法名列表
+    */
+   public getAllMethodNames(prototype: object | null): string[] {
+      if (!prototype) {
+         return [];
+      }
+      if (this.cachedMethodNames.has(prototype)) {
+         return this.cachedMethodNames.get(prototype);
+      }
+
+      const methodNames = new Set<string>();
+      for (
+         let current = prototype;
+         current && current !== Object.prototype;
+         current = Object.getPrototypeOf(current)
+      ) {
+         for (const property of Object.getOwnPropertyNames(current)) {
+            if (property === "constructor" || methodNames.has(property)) {
+               continue;
+            }
+            const descriptor = Object.getOwnPropertyDescriptor(
+               current,
+               property
+            );
+            // 跳过 getter/setter，避免触发访问器
+            if (descriptor.get || descriptor.set) {
+               continue;
+            }
+            if (typeof descriptor.value === "function") {
+               methodNames.add(property);
+            }
+         }
+      }
+
+      const result = [...methodNames];
+      this.cachedMethodNames.set(prototype, result);
+      return result;
+   }
+}
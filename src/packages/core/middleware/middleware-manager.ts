@@ -7,6 +7,17 @@ import {
 import { RequestMethod } from "../../common/enums/request-method.enum";
 import { Logger } from "../logger-server";
 import { isFunction, isObject } from "@/packages/shared/shared.utils";
+import { VersioningType } from "@/packages/common/enums/version-type.enum";
+import {
+   VersioningOptions,
+   VersionValue,
+} from "@/packages/common/interfaces/version-options.interface";
+import {
+   extractRequestVersions,
+   getUriVersionSegment,
+   normalizeVersions,
+   selectVersionedRoute,
+} from "../router/route-versioning";
 
 /**
  * 中间件管理器类
@@ -14,10 +25,13 @@ import { isFunction, isObject } from "@/packages/shared/shared.utils";
  * 1. 中间件的注册和存储
  * 2. 中间件的应用和排除
  * 3. 路由匹配和中间件执行
+ * 4. 启用版本控制后按 RouteInfo.version 匹配请求版本
  */
 export class MiddlewareManager {
-   // 存储已注册的中间件实例，key 为中间件类，value 为中间件实例
+   // 存储已注册的中间件，key 为中间件类，value 为中间件实例或其实例化 Promise
    private readonly middlewares = new Map();
+   // 等待完成依赖注入的类中间件实例
+   private readonly pendingInstances: Promise<any>[] = [];
    // 存储被排除的路由信息，key 为 "method:path" 格式的字符串，value 为路由信息对象
    private readonly excludeMiddlewares = new Map<
       string,
@@ -37,7 +51,8 @@ export class MiddlewareManager {
 
    constructor(
       private readonly app: Express,
-      private readonly getProviderDependencies: (provider: any) => any[]
+      private readonly instantiateClass: (provider: any) => Promise<any>,
+      private readonly versioningOptions?: VersioningOptions
    ) {}
 
    /**
@@ -54,9 +69,9 @@ export class MiddlewareManager {
             // 直接使用函数中间件
             this.app.use(m);
          } else if (this.isClassMiddleware(m)) {
-            // 实例化类中间件并注入依赖
-            const dependencies = this.getProviderDependencies(m);
-            const instance = new m(...dependencies);
+            // 实例化类中间件并注入构造函数和属性依赖
+            const instance = this.instantiateClass(m);
+            this.pendingInstances.push(instance);
             this.middlewares.set(m, instance);
          } else if (this.isMiddlewareInstance(m)) {
             // 直接使用中间件实例
@@ -74,6 +89,14 @@ export class MiddlewareManager {
       return this;
    }
 
+   /**
+    * 等待所有类中间件完成实例化
+    * 实例化失败时抛出异常，由应用启动流程处理
+    */
+   public async resolveInstances() {
+      await Promise.all(this.pendingInstances.splice(0));
+   }
+
    /**
     * 为指定路由应用中间件
     * 处理流程：
@@ -87,65 +110,29 @@ export class MiddlewareManager {
          for (const [middlewareClass, middlewareInstance] of this.middlewares) {
             // 处理函数类型的路由
             if (typeof route === "function") {
-               this.app.use((req, res, next) => {
+               this.app.use(async (req, res, next) => {
                   if (this.isExclude(req)) {
                      return next();
                   }
-                  middlewareInstance.use(req, res, next);
+                  (await middlewareInstance).use(req, res, next);
                });
                continue;
             }
 
             // 处理对象类型的路由
-            const { routePath, routeMethod } = this.normalizeRouteInfo(route);
-            const expressPath = this.normalizeExpressPath(routePath);
-
-            // 创建中间件处理器
-            const middlewareHandler = (
-               req: ExpressRequest,
-               res: ExpressResponse,
-               next: NextFunction
-            ) => {
-               const requestPath = req.originalUrl || req.url;
-
-               // 检查路径匹配
-               if (!this.matchPath(requestPath, expressPath)) {
-                  return next();
-               }
-
-               // 检查方法匹配
-               if (routeMethod !== RequestMethod.ALL) {
-                  const requestMethod =
-                     this.HTTP_METHOD_MAP[req.method.toUpperCase()];
-                  if (requestMethod !== routeMethod) {
-                     return next();
-                  }
-               }
-
-               // 检查是否被排除
-               if (this.isExclude(req)) {
-                  return next();
-               }
-
-               // 执行中间件
-               try {
-                  middlewareInstance.use(req, res, next);
-               } catch (error) {
-                  Logger.error(
-                     `Middleware ${middlewareClass.name} execution error:`,
-                     error,
-                     "MiddlewareManager"
-                  );
-                  next(error);
-               }
-            };
-
-            // 根据路由方法注册中间件
-            if (routeMethod === RequestMethod.ALL) {
-               this.app.use(expressPath, middlewareHandler);
-            } else {
-               const method = this.getHttpMethod(routeMethod);
-               this.app[method](expressPath, middlewareHandler);
+            const { routePath, routeMethod, routeVersion } =
+               this.normalizeRouteInfo(route);
+            for (const versionedPath of this.getVersionedPaths(
+               routePath,
+               routeVersion
+            )) {
+               this.registerRouteMiddleware(
+                  middlewareClass,
+                  middlewareInstance,
+                  this.normalizeExpressPath(versionedPath),
+                  routeMethod,
+                  routeVersion
+               );
             }
          }
       }
@@ -153,6 +140,116 @@ export class MiddlewareManager {
       return this;
    }
 
+   /**
+    * 为单个路由路径注册中间件处理器
+    * @param middlewareClass - 中间件类
+    * @param middlewareInstance - 中间件实例或其实例化 Promise
+    * @param expressPath - Express 路由路径
+    * @param routeMethod - 路由方法
+    * @param routeVersion - 路由版本，URI 版本控制已体现在路径中
+    */
+   private registerRouteMiddleware(
+      middlewareClass: any,
+      middlewareInstance: any,
+      expressPath: string,
+      routeMethod: RequestMethod,
+      routeVersion?: VersionValue
+   ) {
+      // 创建中间件处理器
+      const middlewareHandler = async (
+         req: ExpressRequest,
+         res: ExpressResponse,
+         next: NextFunction
+      ) => {
+         const requestPath = req.originalUrl || req.url;
+
+         // 检查路径匹配
+         if (!this.matchPath(requestPath, expressPath)) {
+            return next();
+         }
+
+         // 检查版本匹配
+         if (!this.matchVersion(req, routeVersion)) {
+            return next();
+         }
+
+         // 检查方法匹配
+         if (routeMethod !== RequestMethod.ALL) {
+            const requestMethod = this.HTTP_METHOD_MAP[req.method.toUpperCase()];
+            if (requestMethod !== routeMethod) {
+               return next();
+            }
+         }
+
+         // 检查是否被排除
+         if (this.isExclude(req)) {
+            return next();
+         }
+
+         // 执行中间件
+         try {
+            (await middlewareInstance).use(req, res, next);
+         } catch (error) {
+            Logger.error(
+               `Middleware ${middlewareClass.name} execution error:`,
+               error,
+               "MiddlewareManager"
+            );
+            next(error);
+         }
+      };
+
+      // 根据路由方法注册中间件
+      if (routeMethod === RequestMethod.ALL) {
+         this.app.use(expressPath, middlewareHandler);
+      } else {
+         const method = this.getHttpMethod(routeMethod);
+         this.app[method](expressPath, middlewareHandler);
+      }
+   }
+
+   /**
+    * 获取路由在各版本下的路径
+    * 只有 URI 版本控制需要在路径中加入版本，其他版本控制在请求时匹配版本
+    * @param routePath - 路由路径
+    * @param routeVersion - RouteInfo.version
+    */
+   private getVersionedPaths(
+      routePath: string,
+      routeVersion?: VersionValue
+   ): string[] {
+      const options = this.versioningOptions;
+      if (routeVersion === undefined || options?.type !== VersioningType.URI) {
+         return [routePath];
+      }
+      return normalizeVersions(routeVersion).map((version) => {
+         const segment = getUriVersionSegment(version, options);
+         return segment ? `/${segment}${routePath}` : routePath;
+      });
+   }
+
+   /**
+    * 检查请求版本是否匹配路由版本
+    * 未启用版本控制、未指定路由版本或使用 URI 版本控制时总是匹配
+    * @param req - 当前请求
+    * @param routeVersion - RouteInfo.version
+    */
+   private matchVersion(req: ExpressRequest, routeVersion?: VersionValue) {
+      const options = this.versioningOptions;
+      if (
+         routeVersion === undefined ||
+         !options ||
+         options.type === VersioningType.URI
+      ) {
+         return true;
+      }
+      const route = { versions: normalizeVersions(routeVersion) };
+      return !!selectVersionedRoute(
+         [route],
+         extractRequestVersions(req, options)
+      );
+   }
+
    /**
     * 排除特定路由的中间件
     * 将路由信息转换为标准格式并存储到 excludeMiddlewares 中
@@ -305,22 +402,25 @@ export class MiddlewareManager {
    private normalizeRouteInfo(route: any): {
       routePath: string;
       routeMethod: RequestMethod;
+      routeVersion?: VersionValue;
    } {
       let routePath = "";
       let routeMethod = RequestMethod.ALL;
+      let routeVersion: VersionValue;
 
       if (typeof route === "string") {
          routePath = route;
       } else if ("path" in route) {
          routePath = route.path;
          routeMethod = route.method ?? RequestMethod.ALL;
+         routeVersion = route.version;
       } else if (route instanceof Function) {
          routePath = Reflect.getMetadata("prefix", route) || "";
          routeMethod = RequestMethod.ALL;
       }
 
       routePath = routePath.startsWith("/") ? routePath : `/${routePath}`;
-      return { routePath, routeMethod };
+      return { routePath, routeMethod, routeVersion };
    }
 
    /**
@@ -0,0 +1,121 @@
+import { Type } from "@/packages/common/interfaces/type.interface";
+import { DynamicModule } from "@/packages/common/interfaces/modules/dynamic-module.interface";
+import { MODULE_METADATA } from "@/packages/common/constants";
+import { isModule, isObject } from "@/packages/shared/shared.utils";
+import { ProviderCollector } from "@/packages/core/providers/provider-collector";
+import { ModuleRegistry } from "@/packages/core/modules/module-registry";
+import { ModuleRef } from "@/packages/core/modules/module-ref";
+import { LifecycleHooksManager } from "@/packages/core/hooks/lifecycle-hooks-manager";
+import { InvalidLazyModuleException } from "@/packages/core/errors/exceptions";
+
+/** 懒加载模块的加载函数，可以直接返回 import() 得到的 ES 模块 */
+export type LazyModuleLoaderFn = () =>
+   | Promise<Type<any> | DynamicModule | Record<string, any>>
+   | Type<any>
+   | DynamicModule;
+
+/**
+ * 懒加载模块加载器类
+ * 以 LazyModuleLoader 为令牌注入，整个应用共享一个实例
+ * 负责：
+ * 1. 在应用启动后将模块及其导入注册到运行中的容器
+ * 2. 为新注册的模块调用 onModuleInit 和 onApplicationBootstrap 钩子
+ * 3. 缓存已加载的模块，重复加载时直接返回其 ModuleRef
+ * 加载过程串行执行，避免并发注册同一模块
+ */
+export class LazyModuleLoader {
+   /** 已加载模块的缓存 模块类或动态模块对象: ModuleRef */
+   private readonly loadedModules = new Map<any, ModuleRef>();
+   /** 上一次加载完成的 Promise，用于串行化加载 */
+   private loading: Promise<unknown> = Promise.resolve();
+   /** 生命周期钩子管理器实例 */
+   private readonly lifecycleHooksManager: LifecycleHooksManager;
+
+   constructor(
+      private readonly moduleRegistry: ModuleRegistry,
+      private readonly providerCollector: ProviderCollector
+   ) {
+      this.lifecycleHooksManager = new LifecycleHooksManager(
+         moduleRegistry,
+         providerCollector
+      );
+   }
+
+   /**
+    * 加载模块并返回其 ModuleRef
+    * @param loaderFn - 返回模块类、动态模块或包含模块类的 ES 模块的函数
+    * @returns 模块的 ModuleRef
+    *
+    * @example
+    * const moduleRef = await lazyModuleLoader.load(() =>
+    *    import("./reports.module")
+    * );
+    * const reportsService = moduleRef.get(ReportsService);
+    */
+   public async load(loaderFn: LazyModuleLoaderFn): Promise<ModuleRef> {
+      const loading = this.loading.then(async () =>
+         this.registerLoadedModule(await loaderFn())
+      );
+      // 加载失败不影响之后的加载
+      this.loading = loading.catch(() => undefined);
+      return loading;
+   }
+
+   /**
+    * 注册加载到的模块，已加载过的模块类或动态模块对象直接返回缓存
+    * @param loaded - 加载函数返回的值
+    */
+   private async registerLoadedModule(loaded: any): Promise<ModuleRef> {
+      // 与 ModuleRegistry 一致，每个动态模块对象是一个独立的模块
+      const moduleOrDynamicModule = this.unwrapModule(loaded);
+      if (this.loadedModules.has(moduleOrDynamicModule)) {
+         return this.loadedModules.get(moduleOrDynamicModule);
+      }
+
+      const registeredModules = new Set(this.moduleRegistry.getModules());
+      const registeredModule = await this.moduleRegistry.registerModule(
+         moduleOrDynamicModule
+      );
+      // 已随应用启动的模块不再重复调用钩子
+      const newModules = this.moduleRegistry
+         .getModules()
+         .filter((module) => !registeredModules.has(module));
+      await this.lifecycleHooksManager.callInitHook(newModules);
+      await this.lifecycleHooksManager.callBootstrapHook(newModules);
+
+      const moduleRef = this.providerCollector.getModuleRef(registeredModule);
+      this.loadedModules.set(moduleOrDynamicModule, moduleRef);
+      return moduleRef;
+   }
+
+   /**
+    * 取出加载结果中的模块
+    * import() 得到的 ES 模块中只能有一个导出的模块类
+    * @param loaded - 加载函数返回的值
+    */
+   private unwrapModule(loaded: any) {
+      if (isModule(loaded) || this.moduleRegistry.isDynamicModule(loaded)) {
+         return loaded;
+      }
+      const moduleClasses = isObject(loaded)
+         ? Object.values(loaded).filter((value) => this.isModuleClass(value))
+         : [];
+      if (moduleClasses.length !== 1) {
+         throw new InvalidLazyModuleException(loaded);
+      }
+      return moduleClasses[0];
+   }
+
+   /**
+    * 检查值是否为 @Module() 声明的模块类
+    * @param value - ES 模块导出的值
+    */
+   private isModuleClass(value: any) {
+      return (
+         isModule(value) &&
+         Object.values(MODULE_METADATA).some((key) =>
+            Reflect.hasOwnMetadata(key, value)
+         )
+      );
+   }
+}
@@ -0,0 +1,141 @@
+import { Scope } from "@/packages/common/interfaces/scope-options.interface";
+import { ProviderCollector } from "@/packages/core/providers/provider-collector";
+import { ModuleRegistry } from "@/packages/core/modules/module-registry";
+import {
+   ContextId,
+   createContextId,
+} from "@/packages/core/helpers/context-id-factory";
+import {
+   InvalidClassScopeException,
+   UnknownElementException,
+} from "@/packages/core/errors/exceptions";
+
+export interface ModuleRefGetOrResolveOpts {
+   /**
+    * 为 true（默认）时只在当前模块的提供者中查找
+    * 为 false 时在所有已注册模块中查找
+    */
+   strict?: boolean;
+}
+
+/**
+ * 模块引用类
+ * 以 ModuleRef 为令牌注入，每个模块对应一个实例
+ * 负责：
+ * 1. 按令牌获取已实例化的静态提供者（get）
+ * 2. 在指定请求上下文中解析请求作用域或瞬态提供者（resolve）
+ * 3. 实例化未注册为提供者的类并注入其依赖（create）
+ */
+export class ModuleRef {
+   constructor(
+      private readonly module: any,
+      private readonly moduleRegistry: ModuleRegistry,
+      private readonly providerCollector: ProviderCollector
+   ) {}
+
+   /**
+    * 获取已实例化的提供者
+    * 请求作用域和瞬态提供者需要使用 resolve()
+    * @param typeOrToken - 提供者令牌
+    * @param options - 查找选项
+    * @returns 提供者实例或值
+    */
+   public get<TInput = any, TResult = TInput>(
+      typeOrToken: any,
+      options: ModuleRefGetOrResolveOpts = { strict: true }
+   ): TResult {
+      const { hostModule, definition } = this.findDefinition(
+         typeOrToken,
+         options
+      );
+      if (
+         this.providerCollector.getProviderScope(definition) ===
+            Scope.TRANSIENT ||
+         !this.providerCollector.isDependencyTreeStatic(definition, hostModule)
+      ) {
+         throw new InvalidClassScopeException(typeOrToken);
+      }
+      return this.providerCollector.getProvider(typeOrToken, hostModule);
+   }
+
+   /**
+    * 在请求上下文中解析提供者
+    * 同一上下文内多次解析返回同一个实例；未指定上下文时每次调用创建新的上下文
+    * 瞬态提供者以当前 ModuleRef 作为注入方
+    * @param typeOrToken - 提供者令牌
+    * @param contextId - 请求上下文标识
+    * @param options - 查找选项
+    * @returns 上下文中的提供者实例
+    */
+   public async resolve<TInput = any, TResult = TInput>(
+      typeOrToken: any,
+      contextId: ContextId = createContextId(),
+      options: ModuleRefGetOrResolveOpts = { strict: true }
+   ): Promise<TResult> {
+      const { hostModule, definition } = this.findDefinition(
+         typeOrToken,
+         options
+      );
+      return this.providerCollector.resolvePerContext(
+         definition,
+         hostModule,
+         contextId,
+         this
+      );
+   }
+
+   /**
+    * 实例化未注册为提供者的类
+    * 依赖从当前模块的可见范围中解析
+    * @param type - 要实例化的类
+    * @param contextId - 请求上下文标识
+    * @returns 类实例
+    */
+   public async create<T = any>(
+      type: new (...args: any[]) => T,
+      contextId?: ContextId
+   ): Promise<T> {
+      return this.providerCollector.instantiateClass(
+         type,
+         this.module,
+         contextId
+      );
+   }
+
+   /**
+    * 查找令牌对应的宿主模块和提供者定义
+    * @param token - 提供者令牌
+    * @param options - 查找选项
+    */
+   private findDefinition(
+      token: any,
+      { strict = true }: ModuleRefGetOrResolveOpts
+   ) {
+      const hostModule = strict
+         ? this.findOwnModule(token)
+         : this.moduleRegistry.getProviderHostModules(token)[0];
+      if (hostModule === undefined) {
+         throw new UnknownElementException(
+            token,
+            strict ? this.module : undefined
+         );
+      }
+      return {
+         hostModule,
+         definition: this.moduleRegistry.findProviderDefinitionByToken(
+            token,
+            hostModule
+         ),
+      };
+   }
+
+   /**
+    * 令牌由当前模块自身提供时返回当前模块
+    * @param token - 提供者令牌
+    */
+   private findOwnModule(token: any) {
+      return this.moduleRegistry.getModuleProviders(this.module)?.has(token)
+         ? this.module
+         : undefined;
+   }
+}
@@ -1,12 +1,36 @@
 import { ProviderCollector } from "@/packages/core/providers/provider-collector";
+import { InstanceLoader } from "@/packages/core/providers/instance-loader";
 import {
    GLOBAL_MODULE_METADATA,
+   INJECTABLE_WATERMARK,
    MODULE_METADATA,
 } from "@/packages/common/constants";
-import { Module } from "@/packages/common/index";
 import { Provider } from "@/packages/common/interfaces/modules/provider.interface";
+import { DynamicModule } from "@/packages/common/interfaces/modules/dynamic-module.interface";
 import { Logger } from "@/packages/core/logger-server";
 import { isModule, isObject } from "@/packages/shared/shared.utils";
+import {
+   CircularModuleImportException,
+   MixedMultiProviderException,
+   UndecoratedProviderException,
+   UnknownExportException,
+} from "@/packages/core/errors/exceptions";
+import { isForwardReference } from "@/packages/common/utils/forward-ref.util";
+import { isConditionalModuleImport } from "@/packages/common/module-utils/conditional.module";
+import {
+   ConditionalModuleImport,
+   ModuleCondition,
+} from "@/packages/common/interfaces/modules/conditional-module-import.interface";
+import { ENHANCER_TOKEN_TO_SUBTYPE_MAP } from "@/packages/core/constants";
+import { getTokenName } from "@/packages/core/errors/messages";
+
+/** 多提供者的一次注册 */
+export interface MultiProviderEntry {
+   /** 该次注册在宿主模块中使用的内部令牌 */
+   token: symbol;
+   /** 宿主模块 */
+   module: any;
+}
 
 /**
  * 模块注册器类
@@ -15,18 +39,54 @@ import { isModule, isObject } from "@/packages/shared/shared.utils";
  * 2. 处理模块的导入和导出
  * 3. 管理提供者定义
  * 4. 处理动态模块
+ * 5. 解析 forwardRef 引用的模块，支持循环导入
+ * 6. 检测未使用 forwardRef 的循环导入
+ * 7. 汇总多提供者（multi: true 以及 APP_* 增强器令牌）的全部注册
+ *    APP_* 增强器在所有模块中可见，其他多提供者与普通提供者一样需要导出
+ * 8. 在注册器内保存动态模块的配置，不修改模块类上的元数据，多个应用实例互不影响
+ *    每个动态模块对象对应一个独立的模块，同一模块类以不同配置多次导入时互不覆盖
+ * 9. 扫描完成后交给 InstanceLoader 按依赖顺序实例化提供者和控制器
+ * 10. 扫描条件导入前判断条件，不满足时跳过被导入的模块
  */
 export class ModuleRegistry {
    /** 模块提供者映射表 module: Set<provider token> */
    private readonly ModuleProviders = new Map<any, Set<any>>();
-   /** 全局提供者令牌集合*/
-   private readonly GlobalProviders = new Set<any>();
-   /** 提供者定义映射表 token: definition， */
-   private readonly providerDefinitions = new Map<any, any>();
+   /** 模块导入映射表 module: Set<imported module> */
+   private readonly ModuleImports = new Map<any, Set<any>>();
+   /** 模块导出映射表 module: Set<exported provider token> */
+   private readonly ModuleExports = new Map<any, Set<any>>();
+   /** 模块转发导出映射表 module: Set<re-exported module> */
+   private readonly ModuleReexports = new Map<any, Set<any>>();
+   /** 全局模块集合 */
+   private readonly GlobalModules = new Set<any>();
+   /** 多提供者映射表 token: 按注册顺序排列的各次注册 */
+   private readonly multiProviders = new Map<any, MultiProviderEntry[]>();
+   /** 动态模块配置映射表 module: 动态模块中声明的 imports/providers/controllers/exports */
+   private readonly dynamicModuleMetadata = new Map<
+      any,
+      Partial<Record<string, any[]>>
+   >();
+   /** 动态模块标识映射表 dynamic module: 注册器中代表该动态模块的模块 */
+   private readonly dynamicModuleKeys = new Map<DynamicModule, any>();
+   /** 动态模块的模块类映射表 module: 动态模块声明的模块类 */
+   private readonly dynamicModuleClasses = new Map<any, any>();
+   /** 提供者定义映射表 module: Map<token, definition> */
+   private readonly providerDefinitions = new Map<any, Map<any, any>>();
+   /** 已扫描的模块列表，被导入的模块排在导入它的模块之前 */
+   private readonly modules: any[] = [];
+   /** 已扫描、等待实例化提供者的模块列表 */
+   private readonly pendingModules: any[] = [];
+   /** 当前嵌套的模块注册深度 */
+   private registrationDepth = 0;
    /** ProviderCollector 实例 */
    private providerCollector: ProviderCollector;
+   /** 按依赖顺序实例化已扫描模块的加载器 */
+   private instanceLoader: InstanceLoader;
 
-   constructor() {}
+   /**
+    * @param logger - 所属应用的日志，未指定时使用独立的日志实例
+    */
+   constructor(private readonly logger: Logger = new Logger()) {}
 
    /**
     * 设置 ProviderCollector 实例
@@ -34,200 +94,445 @@ export class ModuleRegistry {
     */
    public setProviderCollector(providerCollector: ProviderCollector) {
       this.providerCollector = providerCollector;
+      this.instanceLoader = new InstanceLoader(this, providerCollector);
    }
 
    /**
     * 注册模块及其提供者
     * 处理模块的导入、提供者和导出
+    * 分两个阶段：先扫描整个导入图建立模块和提供者定义，再按依赖顺序实例化
+    * 扫描阶段不创建任何实例，循环导入的模块在实例化前已互相可见
     * @param module - 要注册的模块
     * @param parentModules - 导入此模块的父模块列表
+    * @returns 注册后的模块类
     */
    public async registerModule(module: any, ...parentModules: any[]) {
       if (!this.providerCollector) {
          throw new Error("ProviderCollector not initialized");
       }
 
+      this.registrationDepth++;
+      try {
+         const registeredModule = await this.scanModule(
+            module,
+            ...parentModules
+         );
+         if (this.registrationDepth === 1) {
+            await this.instantiatePendingModules();
+         }
+         return registeredModule;
+      } finally {
+         this.registrationDepth--;
+      }
+   }
+
+   /**
+    * 扫描模块的导入、提供者和导出，并将模块加入待实例化列表
+    * @param module - 要扫描的模块
+    * @param parentModules - 导入此模块的父模块列表
+    * @returns 模块类
+    */
+   private async scanModule(module: any, ...parentModules: any[]) {
+      if (isForwardReference(module)) {
+         module = module.forwardRef();
+      }
+
       if (this.isDynamicModule(module)) {
-         await this.registerDynamicModule(module, ...parentModules);
-         return;
+         return this.registerDynamicModule(module, ...parentModules);
       }
 
       if (this.ModuleProviders.has(module)) {
-         return;
+         return module;
       }
 
       this.ModuleProviders.set(module, new Set());
+      this.ModuleImports.set(module, new Set());
+      this.ModuleExports.set(module, new Set());
+      this.ModuleReexports.set(module, new Set());
+      this.providerDefinitions.set(module, new Map());
 
       // 检查模块的元数据
-      const moduleMetadata = Reflect.getMetadata(
-         MODULE_METADATA.PROVIDERS,
-         module
+      const moduleMetadata = this.getModuleMetadata(
+         module,
+         MODULE_METADATA.PROVIDERS
       );
+      // 动态模块的 global 选项在 registerDynamicModule 中登记
       const isGlobalProviderModule =
-         Reflect.getMetadata(GLOBAL_MODULE_METADATA, module) === true;
+         Reflect.getMetadata(GLOBAL_MODULE_METADATA, module) === true ||
+         this.GlobalModules.has(module);
 
-      const importedProviders: Provider[] = moduleMetadata ?? [];
-      const moduleExports =
-         Reflect.getMetadata(MODULE_METADATA.EXPORTS, module) ?? [];
-      const moduleImports =
-         Reflect.getMetadata(MODULE_METADATA.IMPORTS, module) ?? [];
+      const importedProviders: Provider[] = moduleMetadata;
+      const moduleExports = this.getModuleMetadata(
+         module,
+         MODULE_METADATA.EXPORTS
+      );
+      const moduleImports = this.getModuleMetadata(
+         module,
+         MODULE_METADATA.IMPORTS
+      );
+
+      if (isGlobalProviderModule) {
+         this.GlobalModules.add(module);
+      }
 
       // 1. 处理导入的模块
-      for (const importModule of moduleImports) {
-         try {
-            if (this.isDynamicModule(importModule)) {
-               await this.registerDynamicModule(
-                  importModule,
-                  module,
-                  ...parentModules
-               );
-            } else if (isModule(importModule)) {
-               await this.registerModule(
-                  importModule,
-                  module,
-                  ...parentModules
-               );
+      for (let importModule of moduleImports) {
+         if (isConditionalModuleImport(importModule)) {
+            importModule = this.resolveConditionalImport(importModule, module);
+            if (!importModule) {
+               continue;
             }
-         } catch (error) {
-            throw error;
+         }
+
+         const isForwardRef = isForwardReference(importModule);
+         if (isForwardRef) {
+            importModule = importModule.forwardRef();
+         } else {
+            this.assertNoImportCycle(importModule, module, parentModules);
+         }
+
+         let importedModule: any;
+         if (this.isDynamicModule(importModule)) {
+            importedModule = await this.registerDynamicModule(
+               importModule,
+               module,
+               ...parentModules
+            );
+         } else if (isModule(importModule)) {
+            importedModule = await this.registerModule(
+               importModule,
+               module,
+               ...parentModules
+            );
+         } else {
+            this.logger.warn(
+               `Cannot resolve an import of ${module.name}. ` +
+                  `It may be a circular import, wrap it with forwardRef().`,
+               "ModuleRegistry"
+            );
+         }
+
+         if (importedModule) {
+            this.ModuleImports.get(module).add(importedModule);
          }
       }
 
+      // 2. 处理模块自身的提供者（后声明的定义覆盖先声明的）
+      for (const provider of importedProviders) {
+         this.registerProviderInModule(provider, module);
+      }
+
       // 3. 处理导出的模块和提供者
       for (const moduleOrProvide of moduleExports) {
-         try {
-            if (!isModule(moduleOrProvide)) {
-               const moduleProviders = importedProviders.filter((provider) => {
-                  const providerToken =
-                     typeof provider === "object" &&
-                     provider !== null &&
-                     "provide" in provider
-                        ? provider.provide
-                        : provider;
-                  return providerToken === moduleOrProvide;
-               });
-
-               const moduleProvider = this.getLastProvidedDefinition(
-                  moduleProviders,
-                  moduleOrProvide
-               );
-
-               if (moduleProvider) {
-                  // 如果是全局模块，添加到全局提供者集合
-                  if (isGlobalProviderModule) {
-                     this.GlobalProviders.add(moduleOrProvide);
-                  }
-
-                  this.addProviderTokenToModules(
-                     moduleOrProvide,
-                     isGlobalProviderModule,
-                     [...parentModules]
-                  );
-
-                  // 存储提供者定义
-                  if (!this.providerDefinitions.has(moduleOrProvide)) {
-                     this.providerDefinitions.set(
-                        moduleOrProvide,
-                        moduleProvider
-                     );
-                  }
-
-                  // 确保提供者被收集
-                  this.providerCollector.collectProviders(moduleProvider);
-               }
-            } else {
-               await this.registerModule(moduleOrProvide, ...parentModules);
-            }
-         } catch (error) {
-            throw error;
-         }
+         this.registerModuleExport(moduleOrProvide, module);
       }
 
-      // 2. 处理模块自身的提供者
-      for (const provider of importedProviders) {
-         try {
-            const providerToken =
-               typeof provider === "object" &&
-               provider !== null &&
-               "provide" in provider
-                  ? provider.provide
-                  : provider;
-
-            if (isGlobalProviderModule) {
-               this.GlobalProviders.add(providerToken);
-            }
+      this.modules.push(module);
+      this.pendingModules.push(module);
+      return module;
+   }
 
-            // 注册提供者
-            this.registerProviderInModules(provider, isGlobalProviderModule, [
-               module,
-            ]);
-         } catch (error) {
-            throw error;
-         }
+   /**
+    * 判断条件导入的条件，满足时返回被导入的模块
+    * @param conditionalImport - ConditionalModule.registerWhen() 返回的条件导入
+    * @param module - 当前模块
+    * @returns 被导入的模块，条件不满足时返回 undefined
+    */
+   private resolveConditionalImport(
+      { conditionalModule, condition }: ConditionalModuleImport,
+      module: any
+   ) {
+      if (this.isConditionMet(condition)) {
+         return conditionalModule;
       }
+
+      const importedModule = isForwardReference(conditionalModule)
+         ? conditionalModule.forwardRef()
+         : conditionalModule;
+      const importedName =
+         importedModule instanceof Promise
+            ? "Dynamic module"
+            : (importedModule.module ?? importedModule).name;
+      const reason =
+         typeof condition === "string"
+            ? `environment variable "${condition}" is not set or is "false"`
+            : `condition ${condition.name || "predicate"} returned false`;
+      this.logger.log(
+         `${importedName} skipped in ${module.name}: ${reason}`,
+         "ModuleRegistry"
+      );
+      return undefined;
    }
 
    /**
-    * 将提供者注册到指定模块中
-    * @param provider - 提供者定义
-    * @param isGlobalProvider - 是否为全局提供者
-    * @param modulesToRegisterIn - 要注册提供者的模块列表
+    * 判断条件导入的条件是否满足
+    * 环境变量已设置且不为 "false"（不区分大小写）时满足条件
+    * @param condition - 环境变量名或接收 process.env 的判断函数
     */
-   private registerProviderInModules(
-      provider: any,
-      isGlobalProvider: boolean,
-      modulesToRegisterIn: any[]
+   private isConditionMet(condition: ModuleCondition): boolean {
+      if (typeof condition === "function") {
+         return condition(process.env) === true;
+      }
+      const value = process.env[condition];
+      return !!value && value.toLowerCase() !== "false";
+   }
+
+   /**
+    * 检查导入的模块是否已在当前导入路径上
+    * 路径上再次出现的模块构成循环导入，只有通过 forwardRef 导入时才允许
+    * @param importModule - 被导入的模块或动态模块
+    * @param module - 当前模块
+    * @param parentModules - 导入当前模块的父模块列表（由近及远）
+    */
+   private assertNoImportCycle(
+      importModule: any,
+      module: any,
+      parentModules: any[]
    ) {
+      const importedClass = this.isDynamicModule(importModule)
+         ? (this.dynamicModuleKeys.get(importModule) ?? importModule.module)
+         : importModule;
+      const path = [...parentModules].reverse().concat(module);
+      const cycleStart = path.indexOf(importedClass);
+      if (cycleStart !== -1) {
+         throw new CircularModuleImportException([
+            ...path.slice(cycleStart),
+            importedClass,
+         ]);
+      }
+   }
+
+   /**
+    * 实例化所有已扫描模块的提供者和控制器
+    * 由 InstanceLoader 按依赖顺序实例化，互不依赖的提供者（包括异步工厂）并行创建
+    */
+   private async instantiatePendingModules() {
+      while (this.pendingModules.length > 0) {
+         await this.instanceLoader.createInstances(
+            this.pendingModules.splice(0)
+         );
+      }
+   }
+
+   /**
+    * 将提供者定义注册到宿主模块中
+    * 直接以类注册的提供者必须标记 @Injectable()
+    * @param provider - 提供者定义
+    * @param module - 宿主模块
+    */
+   private registerProviderInModule(provider: any, module: any) {
       if (!provider) return;
 
-      const providerToken =
-         typeof provider === "object" &&
-         provider !== null &&
-         "provide" in provider
-            ? provider.provide
-            : provider;
-
-      modulesToRegisterIn.forEach((_module_) => {
-         const moduleProviders = this.ModuleProviders.get(_module_);
-         if (moduleProviders) {
-            moduleProviders.add(providerToken);
-         }
+      if (
+         isModule(provider) &&
+         !Reflect.getMetadata(INJECTABLE_WATERMARK, provider)
+      ) {
+         throw new UndecoratedProviderException(provider, module);
+      }
 
-         if (isGlobalProvider) {
-            this.GlobalProviders.add(providerToken);
-         }
-      });
+      const providerToken = this.getProviderToken(provider);
+      const isMulti = this.isMultiProviderDefinition(provider);
+      if (
+         isMulti
+            ? this.getProviderHostModules(providerToken).length > 0
+            : this.multiProviders.has(providerToken)
+      ) {
+         throw new MixedMultiProviderException(providerToken, module);
+      }
 
-      // 存储提供者定义
-      if (!this.providerDefinitions.has(providerToken)) {
-         this.providerDefinitions.set(providerToken, provider);
+      if (isMulti) {
+         this.registerMultiProvider(provider, providerToken, module);
+         return;
       }
 
-      this.providerCollector.collectProviders(provider);
+      this.ModuleProviders.get(module).add(providerToken);
+      this.providerDefinitions.get(module).set(providerToken, provider);
+   }
+
+   /**
+    * 判断提供者定义是否为多提供者
+    * APP_* 增强器令牌总是按多提供者处理，各模块注册的全局增强器互不覆盖
+    * @param provider - 提供者定义
+    */
+   private isMultiProviderDefinition(provider: any) {
+      return (
+         isObject(provider) &&
+         "provide" in provider &&
+         ((provider as any).multi === true ||
+            (provider as any).provide in ENHANCER_TOKEN_TO_SUBTYPE_MAP)
+      );
    }
 
    /**
-    * 将提供者令牌添加到指定模块中
-    * @param providerToken - 提供者令牌
-    * @param isGlobalProvider - 是否为全局提供者
-    * @param modulesToAddTo - 要添加令牌的模块列表
+    * 以内部令牌在宿主模块中注册多提供者的一次注册
+    * 每次注册的依赖从其宿主模块中解析，注入多提供者令牌时得到所有注册组成的数组
+    * @param provider - 提供者定义
+    * @param providerToken - 多提供者令牌
+    * @param module - 宿主模块
     */
-   private addProviderTokenToModules(
+   private registerMultiProvider(
+      provider: any,
       providerToken: any,
-      isGlobalProvider: boolean,
-      modulesToAddTo: any[]
+      module: any
    ) {
-      if (!providerToken) return;
+      if (!this.multiProviders.has(providerToken)) {
+         this.multiProviders.set(providerToken, []);
+      }
+      const entries = this.multiProviders.get(providerToken);
+      const entry: MultiProviderEntry = {
+         token: Symbol(`${getTokenName(providerToken)}[${entries.length}]`),
+         module,
+      };
+      entries.push(entry);
 
-      modulesToAddTo.forEach((_module_) => {
-         const moduleProviders = this.ModuleProviders.get(_module_);
-         if (moduleProviders) {
-            moduleProviders.add(providerToken);
-         }
-         if (isGlobalProvider) {
-            this.GlobalProviders.add(providerToken);
-         }
-      });
+      this.ModuleProviders.get(module).add(entry.token);
+      this.providerDefinitions
+         .get(module)
+         .set(entry.token, { ...provider, provide: entry.token });
+   }
+
+   /**
+    * 判断令牌是否为多提供者令牌
+    * @param token - 提供者令牌
+    */
+   public isMultiProvider(token: any): boolean {
+      return this.multiProviders.has(token);
+   }
+
+   /**
+    * 获取多提供者令牌的注册
+    * 指定模块时只返回对该模块可见的注册：模块自身的注册，
+    * 以及导入模块和全局模块（含转发导出的模块）导出的注册
+    * APP_* 增强器令牌的注册在所有模块中可见
+    * @param token - 多提供者令牌
+    * @param module - 发起解析的模块，未指定时返回全部注册
+    * @returns 按注册顺序排列的注册列表
+    */
+   public getMultiProviderEntries(
+      token: any,
+      module?: any
+   ): MultiProviderEntry[] {
+      const entries = this.multiProviders.get(token) ?? [];
+      if (module === undefined || this.isGlobalMultiProvider(token)) {
+         return entries;
+      }
+
+      const visibleModules = new Set<any>([module]);
+      const visited = new Set<any>();
+      const candidates = [
+         ...(this.ModuleImports.get(module) ?? []),
+         ...this.GlobalModules,
+      ];
+      for (const candidate of candidates) {
+         this.collectExportHosts(token, candidate, visibleModules, visited);
+      }
+      return entries.filter((entry) => visibleModules.has(entry.module));
+   }
+
+   /**
+    * 判断令牌是否为在所有模块中可见的多提供者令牌（APP_* 增强器令牌）
+    * @param token - 提供者令牌
+    */
+   private isGlobalMultiProvider(token: any) {
+      return (
+         this.multiProviders.has(token) && token in ENHANCER_TOKEN_TO_SUBTYPE_MAP
+      );
+   }
+
+   /**
+    * 收集导出指定令牌的模块，包括转发导出的模块
+    * @param token - 提供者令牌
+    * @param module - 导出方模块
+    * @param hosts - 收集结果
+    * @param visited - 已访问的模块
+    */
+   private collectExportHosts(
+      token: any,
+      module: any,
+      hosts: Set<any>,
+      visited: Set<any>
+   ) {
+      if (visited.has(module)) {
+         return;
+      }
+      visited.add(module);
+      if (this.ModuleExports.get(module)?.has(token)) {
+         hosts.add(module);
+      }
+      for (const reexported of this.ModuleReexports.get(module) ?? []) {
+         this.collectExportHosts(token, reexported, hosts, visited);
+      }
+   }
+
+   /**
+    * 登记模块的导出项
+    * 导出项可以是模块自身的提供者令牌，也可以是已导入的模块
+    * 导出的模块在解析时按其导出转发，支持多级转发以及 forwardRef 导入的模块
+    * @param moduleOrProvide - 导出项
+    * @param module - 当前模块
+    */
+   private registerModuleExport(moduleOrProvide: any, module: any) {
+      if (isForwardReference(moduleOrProvide)) {
+         moduleOrProvide = moduleOrProvide.forwardRef();
+      }
+
+      const providerToken = this.getProviderToken(moduleOrProvide);
+      // APP_* 增强器在所有模块中可见，无需导出
+      if (this.isGlobalMultiProvider(providerToken)) {
+         return;
+      }
+      // 多提供者令牌导出当前模块自身的注册
+      const hasMultiEntries = (this.multiProviders.get(providerToken) ?? []).some(
+         (entry) => entry.module === module
+      );
+      if (
+         hasMultiEntries ||
+         this.ModuleProviders.get(module).has(providerToken)
+      ) {
+         this.ModuleExports.get(module).add(providerToken);
+         return;
+      }
+
+      const exportedModule = this.findImportedModule(moduleOrProvide, module);
+      if (!exportedModule) {
+         throw new UnknownExportException(moduleOrProvide, module);
+      }
+      this.ModuleReexports.get(module).add(exportedModule);
+   }
+
+   /**
+    * 在模块已注册的导入中查找导出项对应的模块
+    * 导出项为模块类时，同样匹配以该模块类导入的动态模块
+    * @param moduleOrDynamicModule - 导出的模块类或动态模块
+    * @param module - 当前模块
+    * @returns 已导入的模块，未导入时返回 undefined
+    */
+   private findImportedModule(moduleOrDynamicModule: any, module: any) {
+      const importedModules = this.ModuleImports.get(module);
+      const isDynamic = this.isDynamicModule(moduleOrDynamicModule);
+      const registeredModule = isDynamic
+         ? this.dynamicModuleKeys.get(moduleOrDynamicModule)
+         : moduleOrDynamicModule;
+      if (importedModules.has(registeredModule)) {
+         return registeredModule;
+      }
+      const moduleClass = isDynamic
+         ? moduleOrDynamicModule.module
+         : moduleOrDynamicModule;
+      return [...importedModules].find(
+         (importedModule) => this.getModuleClass(importedModule) === moduleClass
+      );
+   }
+
+   /**
+    * 获取提供者的令牌
+    * @param provider - 提供者定义
+    * @returns 提供者令牌
+    */
+   private getProviderToken(provider: any) {
+      return isObject(provider) && "provide" in provider
+         ? provider.provide
+         : provider;
    }
 
    /**
@@ -244,8 +549,12 @@ export class ModuleRegistry {
 
    /**
     * 注册动态模块
+    * 支持 ConfigurableModuleBuilder 生成的注册方法返回的动态模块，global 为 true 时注册为全局模块
+    * 动态模块的配置保存在当前注册器中，不修改模块类上的元数据
+    * 同一动态模块对象多次导入时只注册一次
     * @param dynamicModuleConfigOrPromise - 动态模块配置或 Promise
     * @param parentModules - 导入此动态模块的父模块列表
+    * @returns 注册器中代表该动态模块的模块
     */
    public async registerDynamicModule(
       dynamicModuleConfigOrPromise: any,
@@ -264,48 +573,82 @@ export class ModuleRegistry {
          throw new Error("Invalid dynamic module configuration");
       }
 
-      const {
-         module: dynamicModuleClass,
-         imports,
-         providers,
-         controllers,
-         exports,
-      } = dynamicModuleConfig;
-
-      const existingControllers =
-         Reflect.getMetadata(MODULE_METADATA.CONTROLLERS, dynamicModuleClass) ??
-         [];
-      const existingProviders =
-         Reflect.getMetadata(MODULE_METADATA.PROVIDERS, dynamicModuleClass) ??
-         [];
-      const existingImports =
-         Reflect.getMetadata(MODULE_METADATA.IMPORTS, dynamicModuleClass) ?? [];
-      const existingExports =
-         Reflect.getMetadata(MODULE_METADATA.EXPORTS, dynamicModuleClass) ?? [];
-
-      const mergedModuleConfig = {
-         controllers: [...(controllers ?? []), ...existingControllers],
-         providers: [...(providers ?? []), ...existingProviders],
-         imports: [...(imports ?? []), ...existingImports],
-         exports: [...(exports ?? []), ...existingExports],
-      };
+      const { imports, providers, controllers, exports } = dynamicModuleConfig;
+      const dynamicModule = this.getDynamicModuleKey(dynamicModuleConfig);
 
-      Module(mergedModuleConfig)(dynamicModuleClass);
+      if (!this.dynamicModuleMetadata.has(dynamicModule)) {
+         this.dynamicModuleMetadata.set(dynamicModule, {
+            [MODULE_METADATA.IMPORTS]: imports,
+            [MODULE_METADATA.PROVIDERS]: providers,
+            [MODULE_METADATA.CONTROLLERS]: controllers,
+            [MODULE_METADATA.EXPORTS]: exports,
+         });
+      }
+      if (dynamicModuleConfig.global) {
+         this.GlobalModules.add(dynamicModule);
+      }
 
-      const dynamicProviders = dynamicModuleConfig.providers ?? [];
-      const isGlobalDynamicModule = Reflect.getMetadata(
-         GLOBAL_MODULE_METADATA,
-         dynamicModuleClass
-      );
+      return this.registerModule(dynamicModule, ...parentModules);
+   }
 
-      for (const provider of dynamicProviders) {
-         this.registerProviderInModules(provider, isGlobalDynamicModule, [
-            dynamicModuleClass,
-            ...parentModules,
-         ]);
+   /**
+    * 获取注册器中代表动态模块的模块
+    * 模块类首次注册时以模块类自身代表，之后以其他配置导入的动态模块
+    * 以继承该模块类的同名子类代表，@Module() 声明的元数据沿原型链继承
+    * @param dynamicModule - 动态模块配置
+    * @returns 代表该动态模块的模块
+    */
+   private getDynamicModuleKey(dynamicModule: DynamicModule) {
+      if (this.dynamicModuleKeys.has(dynamicModule)) {
+         return this.dynamicModuleKeys.get(dynamicModule);
       }
 
-      await this.registerModule(dynamicModuleClass, ...parentModules);
+      const moduleClass = dynamicModule.module;
+      const isRegistered =
+         this.ModuleProviders.has(moduleClass) ||
+         this.dynamicModuleMetadata.has(moduleClass);
+      const moduleKey = isRegistered
+         ? { [moduleClass.name]: class extends moduleClass {} }[
+              moduleClass.name
+           ]
+         : moduleClass;
+      this.dynamicModuleKeys.set(dynamicModule, moduleKey);
+      this.dynamicModuleClasses.set(moduleKey, moduleClass);
+      return moduleKey;
+   }
+
+   /**
+    * 获取模块对应的模块类
+    * @param module - 注册器中的模块，可以是代表动态模块的子类
+    * @returns 模块类
+    */
+   public getModuleClass(module: any) {
+      return this.dynamicModuleClasses.get(module) ?? module;
+   }
+
+   /**
+    * 获取模块的元数据，动态模块中声明的项排在 @Module() 声明的项之前
+    * @param module - 模块类
+    * @param key - MODULE_METADATA 中的元数据键
+    * @returns 元数据列表
+    */
+   private getModuleMetadata(module: any, key: string): any[] {
+      return [
+         ...(this.dynamicModuleMetadata.get(module)?.[key] ?? []),
+         ...(Reflect.getMetadata(key, module) ?? []),
+      ];
+   }
+
+   /**
+    * 按依赖顺序获取已注册的模块
+    * 全局模块排在最前，其余模块排在导入它们的模块之前
+    * @returns 模块列表
+    */
+   public getModules(): any[] {
+      return [
+         ...this.modules.filter((module) => this.GlobalModules.has(module)),
+         ...this.modules.filter((module) => !this.GlobalModules.has(module)),
+      ];
    }
 
    /**
@@ -317,64 +660,148 @@ export class ModuleRegistry {
       return this.ModuleProviders.get(module);
    }
 
+   /**
+    * 获取模块声明的控制器
+    * @param module - 模块类
+    * @returns 控制器类列表
+    */
+   public getModuleControllers(module: any): any[] {
+      return this.getModuleMetadata(module, MODULE_METADATA.CONTROLLERS);
+   }
+
+   /**
+    * 获取模块已注册的导入模块，动态模块以注册器中代表它的模块表示
+    * @param module - 模块类
+    * @returns 导入模块列表
+    */
+   public getModuleImports(module: any): any[] {
+      return [...(this.ModuleImports.get(module) ?? [])];
+   }
+
    /**
     * 获取全局提供者令牌集合
-    * @returns 全局提供者令牌集合
+    * @returns 全局模块导出（含转发导出）的令牌集合
     */
    public getGlobalProviders(): Set<any> {
-      return this.GlobalProviders;
+      const tokens = new Set<any>();
+      const visited = new Set<any>();
+      for (const module of this.GlobalModules) {
+         this.collectExportedTokens(module, tokens, visited);
+      }
+      return tokens;
    }
 
    /**
-    * 根据令牌查找提供者定义
-    * @param token - 提供者令牌
-    * @returns 提供者定义
+    * 收集模块导出的令牌，包括转发导出的模块的导出
+    * @param module - 模块类
+    * @param tokens - 收集结果
+    * @param visited - 已访问的模块
     */
-   public findProviderDefinitionByToken(token: any): any | undefined {
-      return this.providerDefinitions.get(token);
+   private collectExportedTokens(
+      module: any,
+      tokens: Set<any>,
+      visited: Set<any>
+   ) {
+      if (visited.has(module)) {
+         return;
+      }
+      visited.add(module);
+      this.ModuleExports.get(module)?.forEach((token) => tokens.add(token));
+      for (const reexported of this.ModuleReexports.get(module) ?? []) {
+         this.collectExportedTokens(reexported, tokens, visited);
+      }
    }
 
    /**
-    * 从提供者数组中查找指定 token 的最晚（最后定义）的提供者对象。
-    *
-    * @param providers 提供者数组。
-    * @param token 要查找的 provide token。
-    * @returns 匹配的最晚提供者对象，如果未找到则返回 undefined。
+    * 查找对指定模块可见的令牌所在的宿主模块
+    * 可见范围：模块自身的提供者、导入模块的导出、全局模块的导出
+    * 导入模块转发导出的模块同样可见
+    * @param token - 提供者令牌
+    * @param module - 发起解析的模块
+    * @returns 提供该令牌的宿主模块，不可见时返回 undefined
     */
-   private getLastProvidedDefinition(
-      providers: Provider[],
-      token: string | symbol | Function
-   ): Provider | undefined {
-      let lastProviderDefinition: Provider | undefined = undefined;
+   public getHostModule(token: any, module: any): any | undefined {
+      if (!this.ModuleProviders.has(module)) {
+         return undefined;
+      }
+
+      if (this.ModuleProviders.get(module).has(token)) {
+         return module;
+      }
 
-      // 从后往前遍历数组，找到所有匹配 token 的提供者
-      // NestJS 的解析逻辑是数组中后声明的提供者会覆盖前声明的。
-      for (let i = providers.length - 1; i >= 0; i--) {
-         const provider = providers[i];
+      const candidates = [
+         ...this.ModuleImports.get(module),
+         ...this.GlobalModules,
+      ];
+      for (const candidate of candidates) {
+         const hostModule = this.findExportHost(token, candidate, new Set());
+         if (hostModule) {
+            return hostModule;
+         }
+      }
 
-         // 情况 1: 如果提供者是一个类（简写形式 for useClass）
-         // 例如: providers: [MyService]
-         if (typeof provider === "function" && provider === token) {
-            // 如果 token 就是这个函数（类本身），那么它就是匹配的提供者
-            // 这种情况下，我们直接返回这个类本身作为定义
-            lastProviderDefinition = provider;
-            break; // 找到最晚出现的就退出
+      return undefined;
+   }
+
+   /**
+    * 查找模块导出的令牌所在的宿主模块
+    * 模块自身导出该令牌时返回模块自身，否则沿转发导出的模块继续查找
+    * @param token - 提供者令牌
+    * @param module - 导出方模块
+    * @param visited - 已访问的模块，避免循环转发时无限递归
+    * @returns 宿主模块，模块未导出该令牌时返回 undefined
+    */
+   private findExportHost(
+      token: any,
+      module: any,
+      visited: Set<any>
+   ): any | undefined {
+      if (visited.has(module)) {
+         return undefined;
+      }
+      visited.add(module);
+
+      if (this.ModuleExports.get(module)?.has(token)) {
+         return module;
+      }
+      for (const reexported of this.ModuleReexports.get(module) ?? []) {
+         const hostModule = this.findExportHost(token, reexported, visited);
+         if (hostModule) {
+            return hostModule;
          }
+      }
+      return undefined;
+   }
 
-         // 情况 2: 如果提供者是一个对象字面量（完整形式）
-         // 例如: { provide: 'TOKEN', useValue: ... } 或 { provide: Class, useClass: ... }
-         if (
-            typeof provider === "object" &&
-            provider !== null &&
-            "provide" in provider
-         ) {
-            if (provider.provide === token) {
-               // 找到了匹配的 provide token
-               lastProviderDefinition = provider;
-               break; // 找到最晚出现的就退出
-            }
+   /**
+    * 获取注册了指定令牌的所有模块
+    * @param token - 提供者令牌
+    * @returns 宿主模块列表
+    */
+   public getProviderHostModules(token: any): any[] {
+      return [...this.ModuleProviders.entries()]
+         .filter(([, tokens]) => tokens.has(token))
+         .map(([module]) => module);
+   }
+
+   /**
+    * 根据令牌查找提供者定义
+    * @param token - 提供者令牌
+    * @param module - 宿主模块，未指定时在所有模块中查找
+    * @returns 提供者定义
+    */
+   public findProviderDefinitionByToken(
+      token: any,
+      module?: any
+   ): any | undefined {
+      if (module !== undefined) {
+         return this.providerDefinitions.get(module)?.get(token);
+      }
+      for (const definitions of this.providerDefinitions.values()) {
+         if (definitions.has(token)) {
+            return definitions.get(token);
          }
       }
-      return lastProviderDefinition;
+      return undefined;
    }
 }
@@ -0,0 +1,193 @@
+import { ProviderCollector } from "./providers/provider-collector";
+import { ModuleRegistry } from "./modules/module-registry";
+import { ModuleRef, ModuleRefGetOrResolveOpts } from "./modules/module-ref";
+import { LifecycleHooksManager } from "./hooks/lifecycle-hooks-manager";
+import { ContextId } from "./helpers/context-id-factory";
+import { Logger } from "./logger-server";
+import { ShutdownSignal } from "@/packages/common/enums/shutdown-signal.enum";
+import { MESSAGES } from "./constants";
+import "reflect-metadata";
+
+/**
+ * NestApplicationContext 类
+ * 不包含 HTTP 服务器的应用上下文，供命令行脚本和定时任务复用应用模块，负责：
+ * 1. 注册模块并实例化提供者
+ * 2. 按令牌获取或在请求上下文中解析提供者
+ * 3. 调用生命周期钩子，监听系统信号优雅关闭
+ * 每个实例持有自己的模块注册器、提供者收集器和日志，同一进程中的多个实例互不影响
+ */
+export class NestApplicationContext {
+   /** 模块注册器实例 */
+   protected readonly moduleRegistry: ModuleRegistry;
+   /** 提供者收集器实例 */
+   protected readonly providerCollector: ProviderCollector;
+   /** 生命周期钩子管理器实例 */
+   protected readonly lifecycleHooksManager: LifecycleHooksManager;
+   /** 当前应用实例的日志，上下文为实际的应用类名 */
+   protected readonly logger = new Logger(this.constructor.name);
+   /** 根模块的模块引用，get() 和 resolve() 从这里查找 */
+   private readonly moduleRef: ModuleRef;
+   /** 应用上下文是否已初始化 */
+   protected isInitialized = false;
+   /** 应用上下文是否已关闭 */
+   private isClosed = false;
+   /** 已监听的关闭信号 */
+   private readonly activeShutdownSignals: string[] = [];
+   /** 关闭信号的处理函数 */
+   private shutdownCleanupRef: (signal: string) => Promise<void>;
+
+   /**
+    * 创建新的应用上下文
+    * @param module - 应用程序的根模块
+    */
+   constructor(protected readonly module: any) {
+      // Initialize module registry
+      this.moduleRegistry = new ModuleRegistry(this.logger);
+
+      // Initialize provider collector
+      this.providerCollector = new ProviderCollector(this.moduleRegistry);
+
+      // Set provider collector in module registry
+      this.moduleRegistry.setProviderCollector(this.providerCollector);
+
+      // Initialize lifecycle hooks manager
+      this.lifecycleHooksManager = new LifecycleHooksManager(
+         this.moduleRegistry,
+         this.providerCollector
+      );
+
+      this.moduleRef = new ModuleRef(
+         this.module,
+         this.moduleRegistry,
+         this.providerCollector
+      );
+   }
+
+   /**
+    * 初始化应用上下文
+    * 执行以下步骤：
+    * 1. 注册所有模块并收集提供者
+    * 2. 按模块依赖顺序调用 onModuleInit 和 onApplicationBootstrap 钩子
+    * 重复调用时只初始化一次
+    */
+   async init() {
+      if (this.isInitialized) {
+         return this;
+      }
+      await this.initialize();
+      await this.lifecycleHooksManager.callInitHook();
+      await this.lifecycleHooksManager.callBootstrapHook();
+      this.isInitialized = true;
+      return this;
+   }
+
+   /**
+    * 在生命周期钩子之前执行的初始化步骤，子类在此追加自己的初始化
+    */
+   protected async initialize() {
+      await this.moduleRegistry.registerModule(this.module);
+   }
+
+   /**
+    * 获取已实例化的提供者
+    * 默认在所有已注册模块中查找，strict 为 true 时只查找根模块自身的提供者
+    * @param typeOrToken - 提供者令牌
+    * @param options - 查找选项
+    * @returns 提供者实例或值
+    */
+   public get<TInput = any, TResult = TInput>(
+      typeOrToken: any,
+      options: ModuleRefGetOrResolveOpts = { strict: false }
+   ): TResult {
+      return this.moduleRef.get(typeOrToken, options);
+   }
+
+   /**
+    * 在请求上下文中解析请求作用域或瞬态提供者
+    * @param typeOrToken - 提供者令牌
+    * @param contextId - 请求上下文标识，未指定时每次调用创建新的上下文
+    * @param options - 查找选项
+    * @returns 上下文中的提供者实例
+    */
+   public resolve<TInput = any, TResult = TInput>(
+      typeOrToken: any,
+      contextId?: ContextId,
+      options: ModuleRefGetOrResolveOpts = { strict: false }
+   ): Promise<TResult> {
+      return this.moduleRef.resolve(typeOrToken, contextId, options);
+   }
+
+   /**
+    * 关闭应用上下文
+    * 执行以下步骤：
+    * 1. 调用 onModuleDestroy 钩子
+    * 2. 调用 beforeApplicationShutdown 钩子
+    * 3. 释放子类持有的资源
+    * 4. 调用 onApplicationShutdown 钩子
+    * 关闭钩子按模块依赖顺序的相反顺序调用，重复调用时只关闭一次
+    * @param signal - 触发关闭的系统信号
+    */
+   async close(signal?: string) {
+      if (this.isClosed) {
+         return;
+      }
+      this.isClosed = true;
+      await this.lifecycleHooksManager.callDestroyHook();
+      await this.lifecycleHooksManager.callBeforeShutdownHook(signal);
+      await this.dispose();
+      await this.lifecycleHooksManager.callShutdownHook(signal);
+      this.unsubscribeFromProcessSignals();
+      this.isInitialized = false;
+   }
+
+   /**
+    * 在 beforeApplicationShutdown 和 onApplicationShutdown 之间释放资源
+    * 子类在此关闭自己持有的服务器等资源
+    */
+   protected async dispose() {}
+
+   /**
+    * 监听系统关闭信号，收到信号时关闭应用上下文后再以同一信号结束进程
+    * @param signals - 要监听的信号，默认监听所有 ShutdownSignal
+    * @returns 当前实例，支持链式调用
+    */
+   public enableShutdownHooks(
+      signals: (ShutdownSignal | string)[] = Object.values(ShutdownSignal)
+   ): this {
+      const signalsToListen = [
+         ...new Set(signals.map((signal) => signal.toString().toUpperCase())),
+      ].filter((signal) => !this.activeShutdownSignals.includes(signal));
+
+      this.shutdownCleanupRef ??= async (signal: string) => {
+         try {
+            this.unsubscribeFromProcessSignals();
+            await this.close(signal);
+            process.kill(process.pid, signal);
+         } catch (error) {
+            this.logger.error(
+               MESSAGES.ERROR_DURING_SHUTDOWN,
+               error instanceof Error ? error.stack : String(error)
+            );
+            process.exit(1);
+         }
+      };
+
+      for (const signal of signalsToListen) {
+         this.activeShutdownSignals.push(signal);
+         process.on(signal as any, this.shutdownCleanupRef);
+      }
+      return this;
+   }
+
+   /**
+    * 移除已注册的关闭信号监听
+    */
+   private unsubscribeFromProcessSignals() {
+      if (!this.shutdownCleanupRef) {
+         return;
+      }
+      for (const signal of this.activeShutdownSignals.splice(0)) {
+         process.removeListener(signal, this.shutdownCleanupRef);
+      }
+   }
+}
@@ -1,17 +1,17 @@
 import type { Express } from "express";
+import type { Server } from "http";
 import * as express from "express";
 import { RouterExplorer } from "./router/router-explorer";
-import { ProviderCollector } from "./providers/provider-collector";
-import { ModuleRegistry } from "./modules/module-registry";
-import { MODULE_METADATA } from "@/packages/common/constants";
 import { MiddlewareManager } from "./middleware";
-import { Logger } from "./logger-server";
 import { FilterManager } from "./exceptions/filter-manager";
 import { ExternalExceptionFilter } from "./exceptions/external-exception-filter";
 import { ExceptionFilterManager } from "./exceptions/exception-filter-manager";
 import { ControllerRegistry } from "./controllers/controller-registry";
+import { NestApplicationContext } from "./nest-application-context";
 import "reflect-metadata";
 import { MIDDLEWARE_MESSAGES, MESSAGES } from "./constants";
+import { VersioningType } from "@/packages/common/enums/version-type.enum";
+import { VersioningOptions } from "@/packages/common/interfaces/version-options.interface";
 
 /**
  * NestApplication 类
@@ -20,15 +20,14 @@ import { MIDDLEWARE_MESSAGES, MESSAGES } from "./constants";
  * 2. 注册控制器和路由
  * 3. 处理依赖注入
  * 4. 管理中间件
- * 5. 启动 HTTP 服务器
+ * 5. 启动和关闭 HTTP 服务器
+ * 6. 调用生命周期钩子，监听系统信号优雅关闭
+ * 7. 启用 API 版本控制
+ * 提供者管理和生命周期钩子由 NestApplicationContext 负责
  */
-export class NestApplication {
+export class NestApplication extends NestApplicationContext {
    /** Express 应用实例 */
    private readonly app: Express = express();
-   /** 模块注册器实例 */
-   private readonly moduleRegistry: ModuleRegistry;
-   /** 提供者收集器实例 */
-   private readonly providerCollector: ProviderCollector;
    /** 控制器注册器实例 */
    private readonly controllerRegistry: ControllerRegistry;
    /** 路由探索器实例 */
@@ -41,26 +40,21 @@ export class NestApplication {
    private readonly externalExceptionFilter = new ExternalExceptionFilter();
    /** 过滤器管理器实例 */
    private readonly filterManager: FilterManager;
+   /** listen() 启动的 HTTP 服务器 */
+   private httpServer: Server;
+   /** enableVersioning() 设置的版本控制选项 */
+   private versioningOptions?: VersioningOptions;
 
    /**
     * 创建新的 NestApplication 实例
     * @param module - 应用程序的根模块，包含所有控制器、提供者和导入的模块
     */
-   constructor(private readonly module: any) {
-      // Initialize module registry
-      this.moduleRegistry = new ModuleRegistry();
-
-      // Initialize provider collector
-      this.providerCollector = new ProviderCollector(this.moduleRegistry);
-
-      // Set provider collector in module registry
-      this.moduleRegistry.setProviderCollector(this.providerCollector);
+   constructor(module: any) {
+      super(module);
 
       // Initialize exception filter manager first
       this.exceptionFilterManager = new ExceptionFilterManager(
-         this.providerCollector.getProviderDependencies.bind(
-            this.providerCollector
-         )
+         this.providerCollector.instantiateClass.bind(this.providerCollector)
       );
 
       // Initialize filter manager
@@ -78,8 +72,10 @@ export class NestApplication {
       // Initialize router explorer with exception handler
       this.routerExplorer = new RouterExplorer(
          this.app,
+         this.moduleRegistry,
          this.providerCollector,
-         this.handleException.bind(this)
+         this.handleException.bind(this),
+         this.logger
       );
 
       // Configure body parser
@@ -109,21 +105,22 @@ export class NestApplication {
     * 初始化中间件
     */
    private async initMiddleware() {
-      await this.moduleRegistry.registerModule(this.module);
-
       // Initialize filters
-      this.filterManager.initializeFilters();
+      await this.filterManager.initializeFilters();
 
+      // 中间件在根模块的 configure 中声明，依赖从根模块的可见范围中解析
       this.middlewareManager = new MiddlewareManager(
          this.app,
-         this.providerCollector.getProviderDependencies.bind(
-            this.providerCollector
-         )
+         (provider) =>
+            this.providerCollector.instantiateClass(provider, this.module),
+         this.versioningOptions
       );
 
       if (typeof this.module.prototype?.configure === "function") {
          this.module.prototype.configure(this);
       }
+      // 等待类中间件完成依赖注入
+      await this.middlewareManager.resolveInstances();
    }
 
    /**
@@ -131,7 +128,7 @@ export class NestApplication {
     * @param middleware - 要应用的中间件
     */
    apply(...middleware): this {
-      Logger.log(MIDDLEWARE_MESSAGES.APPLYING_MIDDLEWARE, "NestApplication");
+      this.logger.log(MIDDLEWARE_MESSAGES.APPLYING_MIDDLEWARE);
       this.middlewareManager.apply(...middleware);
       return this;
    }
@@ -141,10 +138,7 @@ export class NestApplication {
     * @param routes - 要排除的路由
     */
    exclude(...routes): this {
-      Logger.log(
-         MIDDLEWARE_MESSAGES.EXCLUDING_MIDDLEWARE_TO_ROUTES,
-         "NestApplication"
-      );
+      this.logger.log(MIDDLEWARE_MESSAGES.EXCLUDING_MIDDLEWARE_TO_ROUTES);
       this.middlewareManager.exclude(...routes);
       return this;
    }
@@ -154,10 +148,7 @@ export class NestApplication {
     * @param routes - 要应用中间件的路由
     */
    forRoutes(...routes): this {
-      Logger.log(
-         MIDDLEWARE_MESSAGES.APPLYING_MIDDLEWARE_TO_ROUTES,
-         "NestApplication"
-      );
+      this.logger.log(MIDDLEWARE_MESSAGES.APPLYING_MIDDLEWARE_TO_ROUTES);
       this.middlewareManager.forRoutes(...routes);
       return this;
    }
@@ -168,15 +159,47 @@ export class NestApplication {
     * 1. 注册所有模块并收集提供者
     * 2. 初始化控制器
     * 3. 探索并注册路由
+    * 4. 按模块依赖顺序调用 onModuleInit 和 onApplicationBootstrap 钩子
+    * 重复调用时只初始化一次
     */
    async init() {
-      Logger.log(MESSAGES.APPLICATION_START, "NestApplication");
+      if (this.isInitialized) {
+         return this;
+      }
+      this.logger.log(MESSAGES.APPLICATION_START);
+      await super.init();
+      this.logger.log(MESSAGES.APPLICATION_READY);
+      return this;
+   }
+
+   /**
+    * 注册模块后初始化中间件、控制器和路由
+    */
+   protected async initialize() {
+      await super.initialize();
       await this.initMiddleware();
-      const controllers =
-         Reflect.getMetadata(MODULE_METADATA.CONTROLLERS, this.module) || [];
-      await this.controllerRegistry.initializeControllers(controllers);
-      this.routerExplorer.explore(this.module);
-      Logger.log(MESSAGES.APPLICATION_READY, "NestApplication");
+      const controllers = this.moduleRegistry.getModuleControllers(this.module);
+      await this.controllerRegistry.initializeControllers(
+         controllers,
+         this.module
+      );
+      await this.routerExplorer.explore(this.module);
+   }
+
+   /**
+    * 关闭 listen() 启动的 HTTP 服务器，等待已有连接处理完成
+    * 在 beforeApplicationShutdown 和 onApplicationShutdown 钩子之间执行
+    */
+   protected async dispose() {
+      if (!this.httpServer) {
+         return;
+      }
+      const server = this.httpServer;
+      this.httpServer = undefined;
+      await new Promise<void>((resolve, reject) => {
+         server.close((error) => (error ? reject(error) : resolve()));
+         server.closeIdleConnections();
+      });
    }
 
    /**
@@ -192,6 +215,20 @@ export class NestApplication {
       this.app.use(express.text());
    }
 
+   /**
+    * 启用 API 版本控制，需要在 init() 或 listen() 之前调用
+    * 路由的版本由 @Version()、@Controller({ version }) 或 defaultVersion 指定
+    * @param options - 版本控制选项，默认为 URI 版本控制
+    * @returns NestApplication 实例，支持链式调用
+    */
+   public enableVersioning(
+      options: VersioningOptions = { type: VersioningType.URI }
+   ): this {
+      this.versioningOptions = options;
+      this.routerExplorer.setVersioningOptions(options);
+      return this;
+   }
+
    /**
     * 向 Express 应用程序添加中间件
     * @param args - 中间件参数
@@ -205,24 +242,25 @@ export class NestApplication {
    /**
     * 在指定端口启动 HTTP 服务器
     * @param port - 要监听的端口号
+    * @returns 启动的 HTTP 服务器
     * @throws 如果应用程序初始化失败，将抛出错误
     */
    async listen(port: number) {
       try {
          await this.init();
       } catch (error) {
-         Logger.error(
-            MESSAGES.APPLICATION_INITIALIZATION_ERR,
-            error,
-            "NestApplication"
-         );
+         this.logger.error(MESSAGES.APPLICATION_INITIALIZATION_ERR, error);
          throw error;
       }
-      this.app.listen(port, () => {
-         Logger.log(
-            `Application is running on: http://localhost:${port}`,
-            "NestApplication"
-         );
+      await new Promise<void>((resolve, reject) => {
+         this.httpServer = this.app.listen(port, () => {
+            this.logger.log(
+               `Application is running on: http://localhost:${port}`
+            );
+            resolve();
+         });
+         this.httpServer.once("error", reject);
       });
+      return this.httpServer;
    }
 }
@@ -1,4 +1,5 @@
 import { NestApplication } from "./nest-application";
+import { NestApplicationContext } from "./nest-application-context";
 import { Logger } from "./logger-server";
 
 export class NestFactory {
@@ -8,4 +9,17 @@ export class NestFactory {
       const app = new NestApplication(module);
       return app;
    }
+
+   /**
+    * 创建不包含 HTTP 服务器的应用上下文
+    * 注册模块、实例化提供者并调用启动钩子后返回
+    * @param module - 应用程序的根模块
+    * @returns 已初始化的应用上下文
+    */
+   static async createApplicationContext(module: any) {
+      Logger.log("Starting Nest application context...", "NestFactory");
+
+      const context = new NestApplicationContext(module);
+      return context.init();
+   }
 }
@@ -0,0 +1,46 @@
+import { Type } from "@/packages/common/interfaces/type.interface";
+import { Abstract } from "@/packages/common/interfaces/abstract.interface";
+import { InjectionToken } from "@/packages/common/injection-token";
+import { getCurrentInjectionContext } from "./injection-context";
+
+/**
+ * @publicApi
+ */
+export interface InjectOptions {
+   /**
+    * 找不到提供者时返回 undefined 而不是抛出异常
+    */
+   optional?: boolean;
+}
+
+/**
+ * 在提供者的构造函数、类字段初始化器或工厂函数中获取依赖
+ * 不依赖 emitDecoratorMetadata，适合不使用装饰器的类和可复用的工厂函数
+ * 依赖从提供者宿主模块的可见范围中解析，异步工厂只能在第一个 await 之前调用
+ * inject() 同步取得依赖，尚未创建的提供者在调用时按需创建，构造函数或工厂不会重复执行
+ * 依赖树中的异步工厂无法按需创建，应通过构造函数参数或工厂的 inject 数组声明，保证先于当前提供者完成
+ * inject() 请求的依赖不参与作用域推断，请求作用域的提供者仍需通过构造函数注入
+ *
+ * @example
+ * class ReportsService {
+ *    private readonly config = inject(ConfigService);
+ *    private readonly cache = inject(CACHE, { optional: true });
+ * }
+ *
+ * @param token - 依赖令牌
+ * @param options - 注入选项
+ * @returns 依赖的实例或值
+ *
+ * @publicApi
+ */
+export function inject<T = any>(
+   token: Type<T> | Abstract<T> | InjectionToken<T> | string | symbol,
+   options?: InjectOptions & { optional?: false }
+): T;
+export function inject<T = any>(
+   token: Type<T> | Abstract<T> | InjectionToken<T> | string | symbol,
+   options: InjectOptions
+): T | undefined;
+export function inject(token: any, { optional = false }: InjectOptions = {}) {
+   return getCurrentInjectionContext().get({ token, optional });
+}
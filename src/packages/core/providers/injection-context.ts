@@ -0,0 +1,56 @@
+import { InjectionContextException } from "../errors/exceptions";
+
+/** inject() 请求的依赖 */
+export interface InjectRequest {
+   token: any;
+   optional: boolean;
+}
+
+/**
+ * 注入上下文
+ * 在当前构造函数或工厂的宿主模块中同步取得 inject() 请求的依赖
+ */
+export class InjectionContext {
+   constructor(private readonly resolve: (request: InjectRequest) => any) {}
+
+   /**
+    * 取得依赖，提供者尚未创建时按需同步创建，无法取得时抛出异常
+    * @param request - inject() 请求的依赖
+    */
+   public get(request: InjectRequest) {
+      return this.resolve(request);
+   }
+}
+
+/** 当前同步执行中的注入上下文 */
+let currentContext: InjectionContext | undefined;
+
+/**
+ * 在注入上下文中同步执行函数
+ * 异步函数只有第一个 await 之前的部分处于注入上下文中
+ * @param context - 注入上下文
+ * @param fn - 构造函数调用或工厂调用
+ */
+export function runInInjectionContext<T>(
+   context: InjectionContext,
+   fn: () => T
+): T {
+   const previousContext = currentContext;
+   currentContext = context;
+   try {
+      return fn();
+   } finally {
+      currentContext = previousContext;
+   }
+}
+
+/**
+ * 获取当前的注入上下文
+ * @throws InjectionContextException 不在注入上下文中调用时抛出
+ */
+export function getCurrentInjectionContext(): InjectionContext {
+   if (!currentContext) {
+      throw new InjectionContextException();
+   }
+   return currentContext;
+}
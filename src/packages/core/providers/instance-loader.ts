@@ -0,0 +1,229 @@
+import { ProviderInitializationException } from "../errors/exceptions";
+import { ModuleRegistry } from "../modules/module-registry";
+import { ProviderCollector } from "./provider-collector";
+
+/** 实例化图中的节点：宿主模块中的一个提供者或控制器 */
+interface InstanceNode {
+   /** 提供者令牌，控制器为控制器类 */
+   token: any;
+   /** 提供者定义或控制器类 */
+   definition: any;
+   /** 宿主模块 */
+   module: any;
+   /** 依赖的节点，只包含本批次中的节点 */
+   dependencies: InstanceNode[];
+}
+
+/**
+ * 实例加载器类
+ * 模块扫描完成后，按依赖顺序实例化本批次模块中的提供者和控制器
+ * 负责：
+ * 1. 根据提供者定义建立依赖图（构造函数参数、属性、工厂 inject、useExisting）
+ * 2. 将互相依赖的提供者（依赖环）合并为一组，组内按注册顺序依次实例化
+ * 3. 按拓扑层级实例化，同一层级中互不依赖的组并行实例化，异步工厂同时开始
+ * 4. 实例化失败时沿依赖图补全依赖链，便于定位依赖失败提供者的类
+ * inject() 请求的依赖不在依赖图中，由 ProviderCollector 在构造函数或工厂执行时按需创建，
+ * 之后轮到该节点时已存在的实例不再创建
+ */
+export class InstanceLoader {
+   constructor(
+      private readonly moduleRegistry: ModuleRegistry,
+      private readonly providerCollector: ProviderCollector
+   ) {}
+
+   /**
+    * 实例化模块中的所有提供者和控制器，每个实例只创建一次
+    * @param modules - 本批次扫描完成的模块
+    */
+   public async createInstances(modules: any[]) {
+      const nodes = this.buildGraph(modules);
+      const components = this.getStronglyConnectedComponents(nodes);
+      for (const level of this.groupByLevel(components)) {
+         await Promise.all(
+            level.map(async (component) => {
+               for (const node of component) {
+                  await this.createInstance(node, nodes);
+               }
+            })
+         );
+      }
+   }
+
+   /**
+    * 实例化单个节点，已存在的实例不再创建
+    * @param node - 实例化图中的节点
+    * @param nodes - 依赖图中的所有节点，用于补全失败时的依赖链
+    */
+   private async createInstance(node: InstanceNode, nodes: InstanceNode[]) {
+      const { token, definition, module } = node;
+      if (this.providerCollector.hasProvider(token, module)) {
+         return;
+      }
+      try {
+         await this.providerCollector.collectProviders(definition, module);
+      } catch (error) {
+         if (error instanceof ProviderInitializationException) {
+            this.addDependants(error, node, nodes);
+         }
+         throw error;
+      }
+   }
+
+   /**
+    * 依赖先于依赖方实例化，失败时依赖链中没有依赖方
+    * 沿依赖图逐级向上查找最先注册的依赖方，记录到依赖链头部
+    * @param error - 提供者初始化异常
+    * @param node - 实例化失败的节点
+    * @param nodes - 依赖图中的所有节点
+    */
+   private addDependants(
+      error: ProviderInitializationException,
+      node: InstanceNode,
+      nodes: InstanceNode[]
+   ) {
+      const visited = new Set([node]);
+      let current = node;
+      for (;;) {
+         const dependant = nodes.find(
+            (item) => !visited.has(item) && item.dependencies.includes(current)
+         );
+         if (!dependant) {
+            return;
+         }
+         visited.add(dependant);
+         error.addDependant(dependant.token);
+         current = dependant;
+      }
+   }
+
+   /**
+    * 建立本批次模块的依赖图
+    * @param modules - 本批次扫描完成的模块
+    * @returns 按模块和注册顺序排列的节点
+    */
+   private buildGraph(modules: any[]): InstanceNode[] {
+      const nodesByModule = new Map<any, Map<any, InstanceNode>>();
+      const nodes: InstanceNode[] = [];
+      const addNode = (token: any, definition: any, module: any) => {
+         const node = { token, definition, module, dependencies: [] };
+         nodesByModule.get(module).set(token, node);
+         nodes.push(node);
+      };
+
+      for (const module of modules) {
+         nodesByModule.set(module, new Map());
+         for (const token of this.moduleRegistry.getModuleProviders(module)) {
+            addNode(
+               token,
+               this.moduleRegistry.findProviderDefinitionByToken(token, module),
+               module
+            );
+         }
+         for (const controller of this.moduleRegistry.getModuleControllers(
+            module
+         )) {
+            addNode(controller, controller, module);
+         }
+      }
+
+      for (const node of nodes) {
+         for (const token of this.providerCollector.getDependencyTokens(
+            node.definition
+         )) {
+            for (const {
+               definition,
+               hostModule,
+            } of this.providerCollector.getDependencyDefinitions(
+               token,
+               node.module
+            )) {
+               const dependency = nodesByModule
+                  .get(hostModule)
+                  ?.get(this.providerCollector.getProviderToken(definition));
+               if (dependency) {
+                  node.dependencies.push(dependency);
+               }
+            }
+         }
+      }
+      return nodes;
+   }
+
+   /**
+    * 使用 Tarjan 算法求依赖图的强连通分量
+    * 依赖所在的分量先于依赖方所在的分量输出
+    * @param nodes - 依赖图中的节点
+    * @returns 强连通分量列表，分量内的节点保持注册顺序
+    */
+   private getStronglyConnectedComponents(
+      nodes: InstanceNode[]
+   ): InstanceNode[][] {
+      const indexes = new Map<InstanceNode, number>();
+      const lowLinks = new Map<InstanceNode, number>();
+      const stack: InstanceNode[] = [];
+      const onStack = new Set<InstanceNode>();
+      const components: InstanceNode[][] = [];
+
+      const visit = (node: InstanceNode) => {
+         indexes.set(node, indexes.size);
+         lowLinks.set(node, indexes.get(node));
+         stack.push(node);
+         onStack.add(node);
+
+         for (const dependency of node.dependencies) {
+            if (!indexes.has(dependency)) {
+               visit(dependency);
+               lowLinks.set(
+                  node,
+                  Math.min(lowLinks.get(node), lowLinks.get(dependency))
+               );
+            } else if (onStack.has(dependency)) {
+               lowLinks.set(
+                  node,
+                  Math.min(lowLinks.get(node), indexes.get(dependency))
+               );
+            }
+         }
+
+         if (lowLinks.get(node) === indexes.get(node)) {
+            const component = new Set<InstanceNode>();
+            let member: InstanceNode;
+            do {
+               member = stack.pop();
+               onStack.delete(member);
+               component.add(member);
+            } while (member !== node);
+            components.push(nodes.filter((item) => component.has(item)));
+         }
+      };
+
+      for (const node of nodes) {
+         if (!indexes.has(node)) {
+            visit(node);
+         }
+      }
+      return components;
+   }
+
+   /**
+    * 按拓扑层级分组：没有依赖的分量在第 0 层，其余分量比其依赖所在的最高层级高一层
+    * @param components - 依赖先于依赖方排列的强连通分量
+    * @returns 各层级的分量列表
+    */
+   private groupByLevel(components: InstanceNode[][]): InstanceNode[][][] {
+      const nodeLevels = new Map<InstanceNode, number>();
+      const levels: InstanceNode[][][] = [];
+      for (const component of components) {
+         const dependencyLevels = component.flatMap((node) =>
+            node.dependencies
+               .filter((dependency) => !component.includes(dependency))
+               .map((dependency) => nodeLevels.get(dependency))
+         );
+         const level =
+            dependencyLevels.length > 0 ? Math.max(...dependencyLevels) + 1 : 0;
+         component.forEach((node) => nodeLevels.set(node, level));
+         (levels[level] ??= []).push(component);
+      }
+      return levels;
+   }
+}
@@ -1,11 +1,37 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { isModule, isObject } from "@/packages/shared/shared.utils";
 import {
    PARAMTYPES_METADATA,
    SELF_DECLARED_DEPS_METADATA,
    OPTIONAL_DEPS_METADATA,
+   PROPERTY_DEPS_METADATA,
+   OPTIONAL_PROPERTY_DEPS_METADATA,
+   MODULE_ISOLATION,
+   SCOPE_OPTIONS_METADATA,
 } from "../../common/constants";
+import { Scope } from "../../common/interfaces/scope-options.interface";
 import { ModuleRegistry } from "../modules/module-registry";
+import { ModuleRef } from "../modules/module-ref";
+import { LazyModuleLoader } from "../modules/lazy-module-loader";
+import {
+   InjectionContext,
+   runInInjectionContext,
+} from "./injection-context";
+import { DiscoveryService } from "../discovery/discovery-service";
+import { MetadataScanner } from "../metadata-scanner";
 import { Logger } from "../logger-server";
+import {
+   AsyncProviderInjectionException,
+   CircularDependencyException,
+   ProviderInitializationException,
+   ProviderNotVisibleException,
+   RequestScopedDependencyException,
+   UnknownDependenciesException,
+} from "../errors/exceptions";
+import { OptionalFactoryDependency } from "../../common/interfaces/modules/optionall-factory-dependency.interface";
+import { INQUIRER, REQUEST } from "../constants";
+import { ContextId } from "../helpers/context-id-factory";
+import { isForwardReference } from "@/packages/common/utils/forward-ref.util";
 
 interface Provider {
    provide: any;
@@ -14,8 +40,71 @@ interface Provider {
    useFactory?: (...args: any[]) => any;
    useExisting?: any;
    inject?: any[];
+   scope?: Scope;
+   durable?: boolean;
+}
+
+/** 依赖的注入位置 */
+interface InjectionSite {
+   /** 依赖该令牌的类或令牌 */
+   dependant: any;
+   /** 依赖方声明的全部依赖令牌（用于错误信息） */
+   dependencies?: any[];
+   /** 依赖在参数列表中的位置 */
+   index?: number;
+   /** 属性注入时的属性名 */
+   key?: string | symbol;
+   /** 注入 dependant 的类或令牌，供 INQUIRER 令牌注入 */
+   inquirer?: any;
+   /** 是否为可选依赖，只有可选依赖在找不到提供者时注入 undefined */
+   optional: boolean;
 }
 
+/** 找不到提供者时 lookupProvider 的返回值 */
+const UNKNOWN_DEPENDENCY = Symbol("UNKNOWN_DEPENDENCY");
+
+/** 正在实例化的类提供者 */
+interface PendingInstance {
+   /** 以类原型创建的占位实例，实例化完成后合并真实实例的属性 */
+   instance: any;
+   /** 占位实例是否已通过 forwardRef 注入给其他提供者 */
+   isReferenced: boolean;
+}
+
+/** 解析路径上正在实例化的提供者 */
+interface ResolutionEntry {
+   token: any;
+   module: any;
+   provider: any;
+}
+
+/** 正在创建的静态实例 */
+interface InFlightInstance {
+   /** 创建完成时兑现的 Promise */
+   promise: Promise<void>;
+   /** 该实例在解析路径上的条目 */
+   entry: ResolutionEntry;
+   /** 发起创建的解析链的起点 */
+   root: ResolutionEntry;
+}
+
+/** 令牌在宿主模块中的查找结果 */
+interface ProviderLookup {
+   /** 宿主模块 */
+   hostModule: any;
+   /** 提供者定义，令牌未注册时为 undefined */
+   definition: any;
+   /** 实例所属的请求上下文 */
+   contextId: ContextId | undefined;
+   /** 已创建的实例或 forwardRef 占位实例，尚未创建时为 UNKNOWN_DEPENDENCY */
+   instance: any;
+}
+
+/** 实例存储 module: Map<token, instance> */
+type InstanceStore = Map<any, Map<any, any>>;
+/** 瞬态实例存储 module: Map<token, Map<inquirer, instance>> */
+type TransientStore = Map<any, Map<any, Map<any, any>>>;
+
 /**
  * 提供者收集器类
  * 负责：
@@ -23,10 +112,62 @@ interface Provider {
  * 2. 解析提供者依赖
  * 3. 管理提供者实例
  * 4. 处理不同类型的提供者（类、工厂、值等）
+ * 5. 按模块边界限制依赖的可见性
+ * 6. 按请求上下文管理请求作用域的提供者
+ * 7. 为瞬态提供者的每个注入位置创建独立实例
+ * 8. 通过 ContextIdStrategy 为持久提供者复用聚合后的上下文
+ * 9. 通过 forwardRef 连接循环依赖的提供者
+ * 10. 注入 @Inject 标记的属性依赖（包括基类声明的属性）
+ * 11. 检测未使用 forwardRef 的循环依赖并报告完整的依赖环
+ * 12. 为每个模块创建可注入的 ModuleRef
+ * 13. 将多提供者的全部注册解析为数组注入
+ * 14. 注入应用共享的 DiscoveryService、MetadataScanner 和 LazyModuleLoader
+ * 15. 在构造函数、类字段初始化器和工厂执行期间提供 inject() 的注入上下文，
+ *     inject() 请求的提供者尚未创建时按需同步创建
+ * 16. 并行实例化时，同一静态实例只创建一次，其余解析链等待创建完成
  */
 export class ProviderCollector {
-   /** 提供者实例映射表 provider[token]: instance */
-   private readonly providers = new Map<any, any>();
+   /** 提供者实例映射表 module: Map<token, instance> */
+   private readonly providers: InstanceStore = new Map();
+   /** 请求作用域实例映射表 contextId: module: Map<token, instance> */
+   private readonly contextProviders = new WeakMap<ContextId, InstanceStore>();
+   /** 瞬态实例映射表 module: token: Map<inquirer, instance> */
+   private readonly transientProviders: TransientStore = new Map();
+   /** 请求上下文中的瞬态实例映射表 contextId: module: token: Map<inquirer, instance> */
+   private readonly contextTransientProviders = new WeakMap<
+      ContextId,
+      TransientStore
+   >();
+   /** 正在实例化的类提供者映射表 module: Map<token, PendingInstance> */
+   private readonly pendingInstances = new Map<
+      any,
+      Map<any, PendingInstance>
+   >();
+   /** 正在创建的静态实例 module: Map<token, InFlightInstance> */
+   private readonly inFlightInstances = new Map<
+      any,
+      Map<any, InFlightInstance>
+   >();
+   /** 正在等待异步结果的工厂提供者 module: Set<token> */
+   private readonly pendingFactories = new Map<any, Set<any>>();
+   /** 正在等待其他解析链的解析链 root entry: 等待的实例 */
+   private readonly blockedChains = new Map<ResolutionEntry, InFlightInstance>();
+   /** 当前异步调用链上的解析路径，并发的请求上下文互不影响 */
+   private readonly resolutionPath = new AsyncLocalStorage<ResolutionEntry[]>();
+   /** 模块引用映射表 module: ModuleRef */
+   private readonly moduleRefs = new Map<any, ModuleRef>();
+   /** 应用共享的发现服务 */
+   private discoveryService: DiscoveryService;
+   /** 应用共享的元数据扫描器 */
+   private metadataScanner: MetadataScanner;
+   /** 应用共享的懒加载模块加载器 */
+   private lazyModuleLoader: LazyModuleLoader;
+   /** 请求对象映射表 contextId: request */
+   private readonly contextRequests = new WeakMap<ContextId, any>();
+   /** 依赖树是否静态的缓存 module: Map<token, boolean> */
+   private readonly staticTreeCache = new Map<any, Map<any, boolean>>();
+   /** 依赖树是否持久的缓存 module: Map<token, boolean> */
+   private readonly durableTreeCache = new Map<any, Map<any, boolean>>();
 
    constructor(private readonly moduleRegistry: ModuleRegistry) {}
 
@@ -36,114 +177,336 @@ export class ProviderCollector {
     * - 类提供者：实例化类
     * - 工厂提供者：执行工厂函数
     * - 值提供者：直接使用值
+    * 请求作用域的提供者（以及依赖它们的提供者）只在请求上下文中实例化
+    * 瞬态提供者只在被注入时按注入方实例化
     * @param provider - 提供者定义（类、工厂、值等）
+    * @param module - 提供者所属的宿主模块
+    * @param contextId - 请求上下文标识
+    * 异步工厂在此处等待完成，失败时中止启动
+    * @param inquirer - 注入瞬态提供者的类或令牌
     */
-   public collectProviders(provider: any) {
+   public async collectProviders(
+      provider: any,
+      module?: any,
+      contextId?: ContextId,
+      inquirer?: any
+   ): Promise<void> {
       // 确定提供者令牌
-      const providerToken =
-         isObject(provider) && "provide" in provider
-            ? provider.provide
-            : provider;
+      const providerToken = this.getProviderToken(provider);
+      // 确定宿主模块，未显式指定时使用 @Module 标记的模块
+      const hostModule =
+         module ??
+         this.getIsolatedModule((provider as Provider)?.useClass ?? provider);
+
+      if (typeof provider === "string" || typeof provider === "symbol") {
+         // 处理字符串或符号类型的令牌
+         // 这些通常是 @Inject() 装饰器使用的令牌
+         // 不需要警告，因为这是预期的行为
+         return;
+      }
+
+      // 请求作用域的依赖树在启动阶段跳过，由请求上下文按需创建
+      const isStatic = this.isDependencyTreeStatic(provider, hostModule);
+      if (!isStatic && !contextId) {
+         return;
+      }
+      const instanceContextId = isStatic ? undefined : contextId;
+
+      // 瞬态提供者没有注入方时不实例化
+      const isTransient = this.getProviderScope(provider) === Scope.TRANSIENT;
+      if (isTransient && inquirer === undefined) {
+         return;
+      }
+
+      // 记录解析路径，同一路径上再次出现的提供者构成循环依赖
+      const entry: ResolutionEntry = {
+         token: providerToken,
+         module: hostModule,
+         provider,
+      };
+      const path = this.resolutionPath.getStore() ?? [];
+      this.checkCircularDependency(path, entry);
+
+      // 静态实例正由其他解析链创建时等待其完成，不重复创建
+      const isShared = !isTransient && instanceContextId === undefined;
+      const inFlight = isShared
+         ? this.inFlightInstances.get(hostModule)?.get(providerToken)
+         : undefined;
+      if (inFlight) {
+         return this.awaitInFlightInstance(inFlight, path, entry);
+      }
+
+      const instantiation = this.resolutionPath.run([...path, entry], () =>
+         this.instantiateProvider(
+            provider,
+            providerToken,
+            hostModule,
+            instanceContextId,
+            isTransient ? inquirer : undefined,
+            inquirer
+         )
+      );
+      if (!isShared) {
+         return instantiation;
+      }
+
+      if (!this.inFlightInstances.has(hostModule)) {
+         this.inFlightInstances.set(hostModule, new Map());
+      }
+      this.inFlightInstances.get(hostModule).set(providerToken, {
+         promise: instantiation,
+         entry,
+         root: path[0] ?? entry,
+      });
+      try {
+         await instantiation;
+      } finally {
+         this.inFlightInstances.get(hostModule).delete(providerToken);
+      }
+   }
+
+   /**
+    * 检查提供者是否已在解析路径上
+    * @param path - 当前解析路径
+    * @param entry - 即将实例化的提供者
+    * @throws CircularDependencyException 提供者已在解析路径上时抛出
+    */
+   private checkCircularDependency(
+      path: ResolutionEntry[],
+      entry: ResolutionEntry
+   ) {
+      const cycleStart = path.findIndex(
+         (resolving) =>
+            resolving.token === entry.token && resolving.module === entry.module
+      );
+      if (cycleStart !== -1) {
+         throw this.createCircularDependencyException([
+            ...path.slice(cycleStart),
+            entry,
+         ]);
+      }
+   }
+
+   /**
+    * 等待其他解析链正在创建的实例
+    * 该解析链直接或间接地等待当前解析链时构成依赖环，抛出异常而不是互相等待
+    * @param inFlight - 正在创建的实例
+    * @param path - 当前解析路径
+    * @param entry - 等待的实例在当前解析路径上的条目
+    */
+   private async awaitInFlightInstance(
+      inFlight: InFlightInstance,
+      path: ResolutionEntry[],
+      entry: ResolutionEntry
+   ) {
+      const root = path[0] ?? entry;
+      for (
+         let blocking = inFlight;
+         blocking;
+         blocking = this.blockedChains.get(blocking.root)
+      ) {
+         if (blocking.root === root) {
+            throw this.createCircularDependencyException([
+               ...path,
+               entry,
+               root,
+            ]);
+         }
+      }
+
+      this.blockedChains.set(root, inFlight);
+      try {
+         await inFlight.promise;
+      } finally {
+         this.blockedChains.delete(root);
+      }
+   }
+
+   /**
+    * 按提供者类型创建实例并保存
+    * @param provider - 提供者定义
+    * @param providerToken - 提供者令牌
+    * @param hostModule - 宿主模块
+    * @param instanceContextId - 实例所属的请求上下文，静态依赖树为 undefined
+    * @param transientInquirer - 瞬态提供者的注入方，实例按注入方保存
+    * @param inquirer - 注入当前提供者的类或令牌，供 INQUIRER 令牌注入
+    */
+   private async instantiateProvider(
+      provider: any,
+      providerToken: any,
+      hostModule: any,
+      instanceContextId: ContextId | undefined,
+      transientInquirer: any,
+      inquirer: any
+   ) {
+      const save = (token: any, instance: any) =>
+         this.saveInstance(
+            token,
+            instance,
+            hostModule,
+            instanceContextId,
+            transientInquirer
+         );
+      // inject() 可能在等待依赖期间已按需创建了该实例
+      const isCreated = (token: any) =>
+         transientInquirer === undefined
+            ? this.hasProvider(token, hostModule, instanceContextId)
+            : this.hasTransientProvider(
+                 token,
+                 hostModule,
+                 transientInquirer,
+                 instanceContextId
+              );
 
       // 处理不同类型的提供者
       if (isModule(provider)) {
          // 处理语法糖 provider
-         const providerDependencies = this.getProviderDependencies(
+         const pending = this.addPendingInstance(
+            providerToken,
+            hostModule,
+            provider
+         );
+         const providerDependencies = await this.getProviderDependencies(
             provider,
-            providerToken
+            hostModule,
+            instanceContextId,
+            inquirer
          );
-         try {
-            const inst = new provider(...providerDependencies);
-            this.providers.set(providerToken, inst);
-         } catch (error) {
-            Logger.error(
-               `An error occurred when instantiating the class ${String(
-                  providerToken
-               )}:`,
-               error
-            );
-            this.providers.set(providerToken, null);
+         if (isCreated(providerToken)) {
+            return;
          }
+         const inst = this.settlePendingInstance(
+            pending,
+            this.invokeWithInjectionContext(
+               provider,
+               providerToken,
+               () => new provider(...providerDependencies),
+               hostModule,
+               instanceContextId,
+               inquirer
+            )
+         );
+         save(providerToken, inst);
+         // 实例保存后再注入属性依赖，属性依赖可以引用循环中的提供者
+         await this.applyPropertyDependencies(
+            inst,
+            provider,
+            hostModule,
+            instanceContextId,
+            inquirer
+         );
       } else if (isObject(provider) && "provide" in provider) {
          // 处理对象形式的提供者定义
          const token = (provider as Provider).provide;
 
          if ((provider as Provider).useClass) {
             // 处理 useClass 类型的提供者
-            const providerDependencies = this.getProviderDependencies(
+            const pending = this.addPendingInstance(
+               token,
+               hostModule,
+               (provider as Provider).useClass
+            );
+            const providerDependencies = await this.getProviderDependencies(
                (provider as Provider).useClass,
-               token
+               hostModule,
+               instanceContextId,
+               inquirer
             );
-            try {
-               const inst = new (provider as Provider).useClass(
-                  ...providerDependencies
-               );
-               this.providers.set(token, inst);
-            } catch (error) {
-               Logger.error(
-                  `Error instantiating useClass provider ${String(token)}:`,
-                  error
-               );
-               this.providers.set(token, null);
+            if (isCreated(token)) {
+               return;
             }
+            const { useClass } = provider as Provider;
+            const inst = this.settlePendingInstance(
+               pending,
+               this.invokeWithInjectionContext(
+                  useClass,
+                  token,
+                  () => new useClass(...providerDependencies),
+                  hostModule,
+                  instanceContextId,
+                  inquirer
+               )
+            );
+            save(token, inst);
+            await this.applyPropertyDependencies(
+               inst,
+               (provider as Provider).useClass,
+               hostModule,
+               instanceContextId,
+               inquirer
+            );
          } else if ((provider as Provider).useValue !== undefined) {
             // useValue provider
             // 直接设置值，后面的会覆盖前面的
-            this.providers.set(token, (provider as Provider).useValue);
+            this.setProvider(token, (provider as Provider).useValue, hostModule);
          } else if ((provider as Provider).useFactory) {
             // useFactory provider
-            const injects = (provider as Provider).inject ?? [];
-            const parsedTokenValues = injects.map((injectToken) =>
-               //>inject 注入的内容可以是常量值，也可以是 provider 注入的 Token
-               this.resolveProvider(injectToken)
+            // inject 注入的内容可以是 provider 注入的 Token，也可以是 { token, optional } 形式的可选依赖
+            const injects = ((provider as Provider).inject ?? []).map(
+               (injectToken) => this.normalizeFactoryDependency(injectToken)
             );
-            try {
-               const instance = (provider as Provider).useFactory(
-                  ...parsedTokenValues
-               );
-               if (instance instanceof Promise) {
-                  instance
-                     .then((resolvedInstance) => {
-                        this.providers.set(token, resolvedInstance);
-                     })
-                     .catch((error) => {
-                        Logger.error(
-                           `Error resolving async useFactory provider ${String(
-                              token
-                           )}:`,
-                           error
-                        );
-                        this.providers.set(token, null);
-                     });
-               } else {
-                  this.providers.set(token, instance);
-               }
-            } catch (error) {
-               Logger.error(
-                  `Error executing useFactory provider ${String(token)}:`,
-                  error
+            const dependencies = injects.map(
+               (dependency) => dependency.token
+            );
+            const parsedTokenValues = [];
+            for (const [index, dependency] of injects.entries()) {
+               parsedTokenValues.push(
+                  await this.resolveDependency(
+                     dependency.token,
+                     hostModule,
+                     instanceContextId,
+                     {
+                        dependant: token,
+                        dependencies,
+                        index,
+                        inquirer,
+                        optional: dependency.optional,
+                     }
+                  )
                );
-               this.providers.set(token, null);
+            }
+            if (isCreated(token)) {
+               return;
+            }
+            const value = this.invokeWithInjectionContext(
+               (provider as Provider).useFactory,
+               token,
+               () => (provider as Provider).useFactory(...parsedTokenValues),
+               hostModule,
+               instanceContextId,
+               inquirer
+            );
+            if (!(value instanceof Promise)) {
+               save(token, value);
+               return;
+            }
+            // 等待异步工厂完成，工厂失败时中止启动；等待期间 inject() 不能再次执行该工厂
+            if (!this.pendingFactories.has(hostModule)) {
+               this.pendingFactories.set(hostModule, new Set());
+            }
+            this.pendingFactories.get(hostModule).add(token);
+            try {
+               save(token, await value);
+            } finally {
+               this.pendingFactories.get(hostModule).delete(token);
             }
          } else if ((provider as Provider).useExisting) {
             // 处理 useExisting 类型的提供者
-            const existingProvider = this.resolveProvider(
-               (provider as Provider).useExisting
+            const existingProvider = await this.resolveDependency(
+               (provider as Provider).useExisting,
+               hostModule,
+               instanceContextId,
+               { dependant: token, inquirer, optional: false }
             );
-            this.providers.set(token, existingProvider);
+            save(token, existingProvider);
          } else {
             // 处理未指定类型的提供者
             Logger.warn(
                `Provider ${String(token)} has no use* property`,
                String(provider)
             );
-            this.providers.set(token, token);
+            this.setProvider(token, token, hostModule);
          }
-      } else if (typeof provider === "string" || typeof provider === "symbol") {
-         // 处理字符串或符号类型的令牌
-         // 这些通常是 @Inject() 装饰器使用的令牌
-         // 不需要警告，因为这是预期的行为
-         return;
       } else {
          // 处理意外的提供者定义
          Logger.warn("Unexpected provider definition:", provider);
@@ -154,109 +517,1656 @@ export class ProviderCollector {
     * 获取提供者的依赖项
     * 分析提供者类的元数据以找到其依赖
     * @param provider - 提供者类或函数
-    * @param providerToken - 提供者令牌（用于日志）
+    * @param module - 提供者所属的宿主模块，依赖只能从该模块的可见范围中解析
+    * @param contextId - 请求上下文标识
+    * @param inquirer - 提供者为瞬态时注入它的类或令牌，供 INQUIRER 令牌注入
     * @returns 解析后的依赖实例或值数组
     */
-   public getProviderDependencies(provider: any, providerToken: any) {
+   public async getProviderDependencies(
+      provider: any,
+      module?: any,
+      contextId?: ContextId,
+      inquirer?: any
+   ): Promise<any[]> {
       if (typeof provider !== "function") {
          console.warn(
             `Attempting to get dependencies for non-class provider: ${String(
-               providerToken
+               provider
             )}`,
             provider
          );
          return [];
       }
 
-      // 获取构造函数参数类型元数据
-      const paramtypes =
-         Reflect.getMetadata(PARAMTYPES_METADATA, provider) ?? [];
-      // 获取自定义依赖元数据
-      const selfDeclaredDeps =
-         Reflect.getMetadata(SELF_DECLARED_DEPS_METADATA, provider) ?? [];
+      const hostModule = module ?? this.getIsolatedModule(provider);
+
       // 获取可选依赖元数据
       const optionalDeps =
          Reflect.getMetadata(OPTIONAL_DEPS_METADATA, provider) ?? [];
 
-      return paramtypes.map((paramtype: any, index: number) => {
-         // 查找此参数位置的自定义依赖
-         const matchedSelfDeclaredDep = selfDeclaredDeps.find(
-            (dep: any) => dep.index === index
+      // 按参数顺序依次解析，保证异步依赖按声明顺序完成
+      const tokens = this.getClassDependencyTokens(provider);
+      const dependencyTokens = tokens.map((token) =>
+         this.unwrapForwardReference(token)
+      );
+      const dependencies = [];
+      for (const [index, token] of tokens.entries()) {
+         // 只有 @Optional() 标记的参数在找不到提供者时注入 undefined
+         dependencies.push(
+            await this.resolveDependency(token, hostModule, contextId, {
+               dependant: provider,
+               dependencies: dependencyTokens,
+               index,
+               inquirer,
+               optional: optionalDeps.includes(index),
+            })
          );
+      }
+      return dependencies;
+   }
 
-         // 使用自定义依赖令牌或参数类型
-         const token = matchedSelfDeclaredDep?.param ?? paramtype;
-
-         // 检查是否是可选依赖
-         const isOptional = optionalDeps.includes(index);
+   /**
+    * 实例化不作为提供者注册的类（控制器、中间件、异常过滤器等）
+    * 注入构造函数依赖和属性依赖
+    * @param metatype - 要实例化的类
+    * @param module - 类所属的宿主模块，依赖只能从该模块的可见范围中解析
+    * @param contextId - 请求上下文标识，未指定时不能依赖请求作用域的提供者
+    * @returns 类实例
+    * @throws RequestScopedDependencyException 未指定上下文却依赖请求作用域的提供者时抛出
+    */
+   public async instantiateClass(
+      metatype: any,
+      module?: any,
+      contextId?: ContextId
+   ) {
+      const hostModule = module ?? this.getIsolatedModule(metatype);
+      const dependencies = await this.getProviderDependencies(
+         metatype,
+         hostModule,
+         contextId
+      );
+      const instance = this.invokeWithInjectionContext(
+         metatype,
+         undefined,
+         () => new metatype(...dependencies),
+         hostModule,
+         contextId
+      );
+      await this.applyPropertyDependencies(
+         instance,
+         metatype,
+         hostModule,
+         contextId
+      );
+      return instance;
+   }
 
-         // 解析依赖
-         const resolved = this.resolveProvider(token);
+   /**
+    * 为实例注入属性依赖
+    * 可选属性解析失败时保留属性原值
+    * @param instance - 类实例
+    * @param metatype - 实例的类
+    * @param module - 宿主模块
+    * @param contextId - 请求上下文标识
+    * @param inquirer - 类为瞬态提供者时注入它的类或令牌
+    */
+   public async applyPropertyDependencies(
+      instance: any,
+      metatype: Function,
+      module?: any,
+      contextId?: ContextId,
+      inquirer?: any
+   ) {
+      const optionalKeys = this.getInheritedMetadata(
+         OPTIONAL_PROPERTY_DEPS_METADATA,
+         metatype
+      );
 
-         // 如果是可选依赖且解析失败，返回 undefined
-         if (isOptional && resolved === undefined) {
-            return undefined;
+      for (const { key, type } of this.getPropertyDependencies(metatype)) {
+         const optional = optionalKeys.includes(key);
+         const resolved = await this.resolveDependency(type, module, contextId, {
+            dependant: metatype,
+            key,
+            inquirer,
+            optional,
+         });
+         if (resolved === undefined && optional) {
+            continue;
          }
-
-         return resolved;
-      });
+         instance[key] = resolved;
+      }
    }
 
    /**
     * 解析提供者令牌
     * 将令牌解析为对应的实例或值
+    * 指定模块时，只能解析该模块可见范围内的提供者：
+    * 自身提供者、导入模块的导出以及全局模块的导出
+    * @param token - 提供者令牌
+    * @param module - 发起解析的模块
+    * @param inquirer - 依赖该令牌的类或令牌（用于错误信息）
+    * @param index - 依赖在构造函数中的参数位置（用于错误信息）
+    * @param contextId - 请求上下文标识
+    * @returns 解析后的提供者实例或值，找不到提供者时抛出 UnknownDependenciesException
+    */
+   public async resolveProvider(
+      token: any,
+      module?: any,
+      inquirer?: any,
+      index?: number,
+      contextId?: ContextId
+   ): Promise<any> {
+      return this.resolveDependency(token, module, contextId, {
+         dependant: inquirer ?? token,
+         index,
+         optional: false,
+      });
+   }
+
+   /**
+    * 查找并实例化令牌对应的提供者
     * @param token - 提供者令牌
-    * @returns 解析后的提供者实例或值
+    * @param module - 发起解析的模块
+    * @param inquirer - 依赖该令牌的类或令牌（用于错误信息）
+    * @param index - 依赖在构造函数中的参数位置（用于错误信息）
+    * @param contextId - 请求上下文标识
+    * @returns 提供者实例或值，找不到提供者时返回 UNKNOWN_DEPENDENCY
     */
-   public resolveProvider(token: any): any {
-      // 1. 检查本地 providers 映射
-      if (this.providers.has(token)) {
-         return this.providers.get(token);
+   private async lookupProvider(
+      token: any,
+      module?: any,
+      inquirer?: any,
+      index?: number,
+      contextId?: ContextId
+   ): Promise<any> {
+      // 前向引用在解析时才取出真实令牌
+      const isForwardRef = isForwardReference(token);
+      if (isForwardRef) {
+         token = token.forwardRef();
       }
 
-      // 2. 通过 ModuleRegistry 查找提供者定义
-      const providerDefinition =
-         this.moduleRegistry.findProviderDefinitionByToken(token);
+      // 0. 当前请求对象
+      if (token === REQUEST) {
+         return contextId ? this.contextRequests.get(contextId) : undefined;
+      }
 
-      if (providerDefinition) {
-         this.collectProviders(providerDefinition);
-         if (this.providers.has(token)) {
-            return this.providers.get(token);
+      // 多提供者：依次解析对当前模块可见的每次注册，按注册顺序组成数组
+      if (this.moduleRegistry.isMultiProvider(token)) {
+         const instances = [];
+         for (const entry of this.getVisibleMultiProviderEntries(
+            token,
+            module,
+            inquirer,
+            index
+         )) {
+            instances.push(
+               await this.lookupProvider(
+                  entry.token,
+                  entry.module,
+                  inquirer,
+                  undefined,
+                  contextId
+               )
+            );
          }
+         return instances;
+      }
+
+      // 1-3. 确定宿主模块和提供者定义，检查已创建的实例
+      const lookup = this.findProvider(
+         token,
+         isForwardRef,
+         module,
+         inquirer,
+         index,
+         contextId
+      );
+      const { hostModule, definition: providerDefinition } = lookup;
+      contextId = lookup.contextId;
+      if (lookup.instance !== UNKNOWN_DEPENDENCY) {
+         return lookup.instance;
       }
 
-      // 3. 如果是字符串，检查是否是 Optional 依赖
-      if (typeof token === "string") {
-         // 检查是否在 providers 映射中有对应的值提供者
-         const valueProvider = this.providers.get(token);
-         if (valueProvider !== undefined) {
-            return valueProvider;
+      // 瞬态提供者为每个注入方创建独立实例
+      if (
+         providerDefinition &&
+         this.getProviderScope(providerDefinition) === Scope.TRANSIENT
+      ) {
+         const transientInquirer = inquirer ?? token;
+         if (
+            !this.hasTransientProvider(
+               token,
+               hostModule,
+               transientInquirer,
+               contextId
+            )
+         ) {
+            await this.collectProviders(
+               providerDefinition,
+               hostModule,
+               contextId,
+               transientInquirer
+            );
+         }
+         return this.getTransientProvider(
+            token,
+            hostModule,
+            transientInquirer,
+            contextId
+         );
+      }
+
+      if (providerDefinition) {
+         await this.collectProviders(providerDefinition, hostModule, contextId);
+         if (this.hasProvider(token, hostModule, contextId)) {
+            return this.getProvider(token, hostModule, contextId);
          }
-         // 如果找不到对应的提供者，且不是 Optional 依赖，则返回字符串本身
-         // 这样在工厂函数中可以直接使用字符串值
-         return token;
       }
 
       // 4. 未找到提供者
+      return UNKNOWN_DEPENDENCY;
+   }
+
+   /**
+    * 同步查找令牌对应的提供者，尚未创建时在当前注入上下文中按需创建
+    * 与 lookupProvider 相同，供 inject() 及其按需创建的提供者解析依赖
+    * @param token - 提供者令牌
+    * @param module - 发起解析的模块
+    * @param inquirer - 依赖该令牌的类或令牌
+    * @param index - 依赖在构造函数中的参数位置（用于错误信息）
+    * @param contextId - 请求上下文标识
+    * @returns 提供者实例或值，找不到提供者时返回 UNKNOWN_DEPENDENCY
+    */
+   private lookupProviderSync(
+      token: any,
+      module: any,
+      inquirer: any,
+      index: number | undefined,
+      contextId: ContextId | undefined
+   ): any {
+      const isForwardRef = isForwardReference(token);
+      if (isForwardRef) {
+         token = token.forwardRef();
+      }
+
+      if (token === REQUEST) {
+         return contextId ? this.contextRequests.get(contextId) : undefined;
+      }
+
+      if (this.moduleRegistry.isMultiProvider(token)) {
+         return this.getVisibleMultiProviderEntries(
+            token,
+            module,
+            inquirer,
+            index
+         ).map((entry) =>
+            this.lookupProviderSync(
+               entry.token,
+               entry.module,
+               inquirer,
+               undefined,
+               contextId
+            )
+         );
+      }
+
+      const lookup = this.findProvider(
+         token,
+         isForwardRef,
+         module,
+         inquirer,
+         index,
+         contextId
+      );
+      const { hostModule, definition } = lookup;
+      if (lookup.instance !== UNKNOWN_DEPENDENCY || !definition) {
+         return lookup.instance;
+      }
+
+      if (this.getProviderScope(definition) === Scope.TRANSIENT) {
+         const transientInquirer = inquirer ?? token;
+         if (
+            !this.hasTransientProvider(
+               token,
+               hostModule,
+               transientInquirer,
+               lookup.contextId
+            )
+         ) {
+            this.collectProvidersSync(
+               definition,
+               hostModule,
+               lookup.contextId,
+               inquirer,
+               transientInquirer
+            );
+         }
+         return this.getTransientProvider(
+            token,
+            hostModule,
+            transientInquirer,
+            lookup.contextId
+         );
+      }
+
+      this.collectProvidersSync(
+         definition,
+         hostModule,
+         lookup.contextId,
+         inquirer
+      );
+      return this.hasProvider(token, hostModule, lookup.contextId)
+         ? this.getProvider(token, hostModule, lookup.contextId)
+         : UNKNOWN_DEPENDENCY;
+   }
+
+   /**
+    * 确定令牌的宿主模块和提供者定义，并取得已创建的实例
+    * 持久提供者改用 ContextIdStrategy 选择的上下文
+    * @param token - 提供者令牌（已取出前向引用）
+    * @param isForwardRef - 依赖是否通过 forwardRef 声明，是则可以取得占位实例
+    * @param module - 发起解析的模块
+    * @param inquirer - 依赖该令牌的类或令牌（用于错误信息）
+    * @param index - 依赖在构造函数中的参数位置（用于错误信息）
+    * @param contextId - 请求上下文标识
+    * @throws RequestScopedDependencyException 在请求上下文之外解析请求作用域的依赖树时抛出
+    */
+   private findProvider(
+      token: any,
+      isForwardRef: boolean,
+      module: any,
+      inquirer: any,
+      index: number | undefined,
+      contextId: ContextId | undefined
+   ): ProviderLookup {
+      // 1. 确定提供该令牌的宿主模块
+      const hostModule = this.getVisibleHostModule(
+         token,
+         module,
+         inquirer,
+         index
+      );
+
+      // 2. 通过 ModuleRegistry 查找提供者定义，持久提供者改用策略选择的上下文
+      const definition = this.moduleRegistry.findProviderDefinitionByToken(
+         token,
+         hostModule
+      );
+      if (definition && contextId) {
+         contextId = this.getInstanceContextId(definition, hostModule, contextId);
+      }
+      const lookup: ProviderLookup = {
+         hostModule,
+         definition,
+         contextId,
+         instance: UNKNOWN_DEPENDENCY,
+      };
+
+      // 3. 检查宿主模块的 providers 映射
+      if (this.hasProvider(token, hostModule, contextId)) {
+         return {
+            ...lookup,
+            instance: this.getProvider(token, hostModule, contextId),
+         };
+      }
+
+      // 请求作用域的依赖树只能在请求上下文中创建
+      if (
+         definition &&
+         !contextId &&
+         !this.isDependencyTreeStatic(definition, hostModule)
+      ) {
+         throw new RequestScopedDependencyException(
+            inquirer ?? token,
+            token,
+            this.findRequestScopedToken(definition, hostModule),
+            module
+         );
+      }
+
+      // 循环依赖中尚未构造完成的类，通过 forwardRef 先注入占位实例
+      const pending = isForwardRef
+         ? this.pendingInstances.get(hostModule)?.get(token)
+         : undefined;
+      if (pending) {
+         pending.isReferenced = true;
+         return { ...lookup, instance: pending.instance };
+      }
+      return lookup;
+   }
+
+   /**
+    * 确定对发起解析的模块可见的宿主模块
+    * @param token - 提供者令牌
+    * @param module - 发起解析的模块，未指定时在所有模块中查找
+    * @param inquirer - 依赖该令牌的类或令牌（用于错误信息）
+    * @param index - 依赖在构造函数中的参数位置（用于错误信息）
+    * @returns 宿主模块，令牌未注册时返回 undefined
+    * @throws ProviderNotVisibleException 令牌已在其他模块注册，但对当前模块不可见时抛出
+    */
+   private getVisibleHostModule(
+      token: any,
+      module: any,
+      inquirer?: any,
+      index?: number
+   ) {
+      if (module === undefined) {
+         return module;
+      }
+      const hostModule = this.moduleRegistry.getHostModule(token, module);
+      const hostModules = this.moduleRegistry.getProviderHostModules(token);
+      if (hostModule === undefined && hostModules.length > 0) {
+         throw new ProviderNotVisibleException(
+            inquirer ?? token,
+            token,
+            module,
+            hostModules,
+            index
+         );
+      }
+      return hostModule;
+   }
+
+   /**
+    * 获取对发起解析的模块可见的多提供者注册
+    * @param token - 多提供者令牌
+    * @param module - 发起解析的模块，未指定时返回全部注册
+    * @param inquirer - 依赖该令牌的类或令牌（用于错误信息）
+    * @param index - 依赖在构造函数中的参数位置（用于错误信息）
+    * @throws ProviderNotVisibleException 令牌已在其他模块注册，但没有对当前模块可见的注册时抛出
+    */
+   private getVisibleMultiProviderEntries(
+      token: any,
+      module: any,
+      inquirer?: any,
+      index?: number
+   ) {
+      const entries = this.moduleRegistry.getMultiProviderEntries(
+         token,
+         module
+      );
+      if (entries.length === 0) {
+         const hostModules = this.moduleRegistry
+            .getMultiProviderEntries(token)
+            .map((entry) => entry.module);
+         throw new ProviderNotVisibleException(
+            inquirer ?? token,
+            token,
+            module,
+            [...new Set(hostModules)],
+            index
+         );
+      }
+      return entries;
+   }
+
+   /**
+    * 在注入上下文中执行构造函数或工厂，供 inject() 取得依赖
+    * 构造函数或工厂只执行一次，inject() 请求的提供者尚未创建时按需同步创建
+    * @param target - 类或工厂函数
+    * @param token - 提供者令牌，执行失败时包装为 ProviderInitializationException；为 undefined 时原样抛出
+    * @param fn - 构造函数调用或工厂调用
+    * @param module - 宿主模块，依赖只能从该模块的可见范围中解析
+    * @param contextId - 请求上下文标识
+    * @param inquirer - 注入当前提供者的类或令牌，供 INQUIRER 令牌注入
+    * @returns 实例或工厂的返回值，异步工厂返回的 Promise 失败时同样包装异常
+    */
+   private invokeWithInjectionContext<T>(
+      target: Function,
+      token: any,
+      fn: () => T,
+      module: any,
+      contextId: ContextId | undefined,
+      inquirer?: any
+   ): T {
+      // inject() 的解析异常与构造函数参数的解析异常一样原样抛出
+      let injectionError: unknown;
+      const context = new InjectionContext(({ token: dependency, optional }) => {
+         try {
+            return this.resolveDependencySync(dependency, module, contextId, {
+               dependant: token ?? target,
+               inquirer,
+               optional,
+            });
+         } catch (error) {
+            injectionError = error;
+            throw error;
+         }
+      });
+      const wrapError = (error: unknown) =>
+         token === undefined || error === injectionError
+            ? error
+            : new ProviderInitializationException(token, error);
+
+      let result: T;
+      try {
+         result = runInInjectionContext(context, fn);
+      } catch (error) {
+         throw wrapError(error);
+      }
+      if (result instanceof Promise) {
+         return result.catch((error) => {
+            throw wrapError(error);
+         }) as T;
+      }
+      return result;
+   }
+
+   /**
+    * 同步解析单个依赖
+    * 与 resolveDependency 相同，供 inject() 及其按需创建的提供者解析依赖
+    * @param token - 依赖令牌
+    * @param module - 发起解析的模块
+    * @param contextId - 请求上下文标识
+    * @param site - 依赖的注入位置
+    */
+   private resolveDependencySync(
+      token: any,
+      module: any,
+      contextId: ContextId | undefined,
+      site: InjectionSite
+   ): any {
+      const builtIn = this.getBuiltInDependency(token, module, site);
+      if (builtIn !== UNKNOWN_DEPENDENCY) {
+         return builtIn;
+      }
+      try {
+         const resolved = this.lookupProviderSync(
+            token,
+            module,
+            site.dependant,
+            site.index,
+            contextId
+         );
+         if (resolved !== UNKNOWN_DEPENDENCY) {
+            return resolved;
+         }
+      } catch (error) {
+         if (error instanceof ProviderInitializationException) {
+            error.addDependant(site.dependant);
+         }
+         throw error;
+      }
+
+      if (site.optional) {
+         return undefined;
+      }
+      throw new UnknownDependenciesException(
+         site.dependant,
+         this.unwrapForwardReference(token),
+         site.dependencies ?? [],
+         site.index,
+         module,
+         site.key
+      );
+   }
+
+   /**
+    * 同步创建 inject() 请求的提供者
+    * 其他解析链正在创建的同一实例在此直接创建，该解析链解析完依赖后不再重复创建
+    * @param provider - 提供者定义
+    * @param hostModule - 宿主模块
+    * @param contextId - 请求上下文标识
+    * @param dependant - 依赖该提供者的类或令牌（用于错误信息）
+    * @param transientInquirer - 瞬态提供者的注入方
+    */
+   private collectProvidersSync(
+      provider: any,
+      hostModule: any,
+      contextId: ContextId | undefined,
+      dependant: any,
+      transientInquirer?: any
+   ) {
+      const providerToken = this.getProviderToken(provider);
+      const isStatic = this.isDependencyTreeStatic(provider, hostModule);
+      const instanceContextId = isStatic ? undefined : contextId;
+
+      const entry: ResolutionEntry = {
+         token: providerToken,
+         module: hostModule,
+         provider,
+      };
+      const path = this.resolutionPath.getStore() ?? [];
+      this.checkCircularDependency(path, entry);
+      this.resolutionPath.run([...path, entry], () =>
+         this.instantiateProviderSync(
+            provider,
+            providerToken,
+            hostModule,
+            instanceContextId,
+            transientInquirer,
+            dependant
+         )
+      );
+   }
+
+   /**
+    * 按提供者类型同步创建实例并保存
+    * 与 instantiateProvider 相同，但依赖同步解析，工厂返回 Promise 时无法使用其结果
+    * @param provider - 提供者定义
+    * @param providerToken - 提供者令牌
+    * @param hostModule - 宿主模块
+    * @param instanceContextId - 实例所属的请求上下文，静态依赖树为 undefined
+    * @param transientInquirer - 瞬态提供者的注入方，同时供 INQUIRER 令牌注入
+    * @param dependant - 依赖该提供者的类或令牌（用于错误信息）
+    * @throws AsyncProviderInjectionException 提供者为异步工厂时抛出
+    */
+   private instantiateProviderSync(
+      provider: any,
+      providerToken: any,
+      hostModule: any,
+      instanceContextId: ContextId | undefined,
+      transientInquirer: any,
+      dependant: any
+   ) {
+      const save = (instance: any) =>
+         this.saveInstance(
+            providerToken,
+            instance,
+            hostModule,
+            instanceContextId,
+            transientInquirer
+         );
+
+      const metatype = isModule(provider)
+         ? provider
+         : (provider as Provider)?.useClass;
+      if (metatype) {
+         // 其他解析链登记的占位实例可能已通过 forwardRef 注入，沿用同一占位记录
+         const pending =
+            this.pendingInstances.get(hostModule)?.get(providerToken) ??
+            this.addPendingInstance(providerToken, hostModule, metatype);
+         const optionalDeps =
+            Reflect.getMetadata(OPTIONAL_DEPS_METADATA, metatype) ?? [];
+         const tokens = this.getClassDependencyTokens(metatype);
+         const dependencyTokens = tokens.map((token) =>
+            this.unwrapForwardReference(token)
+         );
+         const dependencies = tokens.map((token, index) =>
+            this.resolveDependencySync(token, hostModule, instanceContextId, {
+               dependant: metatype,
+               dependencies: dependencyTokens,
+               index,
+               inquirer: transientInquirer,
+               optional: optionalDeps.includes(index),
+            })
+         );
+         const instance = this.settlePendingInstance(
+            pending,
+            this.invokeWithInjectionContext(
+               metatype,
+               providerToken,
+               () => new metatype(...dependencies),
+               hostModule,
+               instanceContextId,
+               transientInquirer
+            )
+         );
+         save(instance);
+         this.applyPropertyDependenciesSync(
+            instance,
+            metatype,
+            hostModule,
+            instanceContextId,
+            transientInquirer
+         );
+      } else if ((provider as Provider).useValue !== undefined) {
+         this.setProvider(
+            providerToken,
+            (provider as Provider).useValue,
+            hostModule
+         );
+      } else if ((provider as Provider).useFactory) {
+         // 正在等待异步结果的工厂不再重复执行
+         if (this.pendingFactories.get(hostModule)?.has(providerToken)) {
+            throw new AsyncProviderInjectionException(
+               dependant,
+               providerToken,
+               hostModule
+            );
+         }
+         const { useFactory } = provider as Provider;
+         const injects = ((provider as Provider).inject ?? []).map(
+            (injectToken) => this.normalizeFactoryDependency(injectToken)
+         );
+         const dependencies = injects.map((dependency) => dependency.token);
+         const parsedTokenValues = injects.map((dependency, index) =>
+            this.resolveDependencySync(
+               dependency.token,
+               hostModule,
+               instanceContextId,
+               {
+                  dependant: providerToken,
+                  dependencies,
+                  index,
+                  inquirer: transientInquirer,
+                  optional: dependency.optional,
+               }
+            )
+         );
+         const value = this.invokeWithInjectionContext(
+            useFactory,
+            providerToken,
+            () => useFactory(...parsedTokenValues),
+            hostModule,
+            instanceContextId,
+            transientInquirer
+         );
+         if (value instanceof Promise) {
+            // 异步结果不会被使用，忽略其失败
+            value.catch(() => undefined);
+            throw new AsyncProviderInjectionException(
+               dependant,
+               providerToken,
+               hostModule
+            );
+         }
+         save(value);
+      } else if ((provider as Provider).useExisting) {
+         save(
+            this.resolveDependencySync(
+               (provider as Provider).useExisting,
+               hostModule,
+               instanceContextId,
+               {
+                  dependant: providerToken,
+                  inquirer: transientInquirer,
+                  optional: false,
+               }
+            )
+         );
+      } else {
+         Logger.warn(
+            `Provider ${String(providerToken)} has no use* property`,
+            String(provider)
+         );
+         this.setProvider(providerToken, providerToken, hostModule);
+      }
+   }
+
+   /**
+    * 为按需创建的实例同步注入属性依赖
+    * 与 applyPropertyDependencies 相同，可选属性解析失败时保留属性原值
+    * @param instance - 类实例
+    * @param metatype - 实例的类
+    * @param module - 宿主模块
+    * @param contextId - 请求上下文标识
+    * @param inquirer - 类为瞬态提供者时注入它的类或令牌
+    */
+   private applyPropertyDependenciesSync(
+      instance: any,
+      metatype: Function,
+      module: any,
+      contextId: ContextId | undefined,
+      inquirer?: any
+   ) {
+      const optionalKeys = this.getInheritedMetadata(
+         OPTIONAL_PROPERTY_DEPS_METADATA,
+         metatype
+      );
+
+      for (const { key, type } of this.getPropertyDependencies(metatype)) {
+         const optional = optionalKeys.includes(key);
+         const resolved = this.resolveDependencySync(type, module, contextId, {
+            dependant: metatype,
+            key,
+            inquirer,
+            optional,
+         });
+         if (resolved === undefined && optional) {
+            continue;
+         }
+         instance[key] = resolved;
+      }
+   }
+
+   /**
+    * 获取模块对应的 ModuleRef，每个模块只创建一次
+    * @param module - 宿主模块
+    */
+   public getModuleRef(module: any) {
+      if (!this.moduleRefs.has(module)) {
+         this.moduleRefs.set(
+            module,
+            new ModuleRef(module, this.moduleRegistry, this)
+         );
+      }
+      return this.moduleRefs.get(module);
+   }
+
+   /**
+    * 获取应用共享的 DiscoveryService，首次注入时创建
+    */
+   private getDiscoveryService() {
+      this.discoveryService ??= new DiscoveryService(
+         this.moduleRegistry,
+         this
+      );
+      return this.discoveryService;
+   }
+
+   /**
+    * 获取应用共享的 MetadataScanner，首次注入时创建
+    */
+   private getMetadataScanner() {
+      this.metadataScanner ??= new MetadataScanner();
+      return this.metadataScanner;
+   }
+
+   /**
+    * 获取应用共享的 LazyModuleLoader，首次注入时创建
+    */
+   private getLazyModuleLoader() {
+      this.lazyModuleLoader ??= new LazyModuleLoader(
+         this.moduleRegistry,
+         this
+      );
+      return this.lazyModuleLoader;
+   }
+
+   /**
+    * 根据解析路径上的依赖环创建异常
+    * 环上只有类提供者时，提示使用 forwardRef 连接
+    * @param cycle - 从首次出现到再次出现的解析路径
+    */
+   private createCircularDependencyException(cycle: ResolutionEntry[]) {
+      const modules = [...new Set(cycle.map((entry) => entry.module))];
+      const canForwardRef = cycle.every(
+         ({ provider }) =>
+            isModule(provider) || isModule((provider as Provider)?.useClass)
+      );
+      return new CircularDependencyException(
+         cycle.map((entry) => entry.token),
+         modules,
+         canForwardRef
+      );
+   }
+
+   /**
+    * 取出前向引用指向的真实令牌
+    * @param token - 依赖令牌或前向引用
+    */
+   private unwrapForwardReference(token: any) {
+      return isForwardReference(token) ? token.forwardRef() : token;
+   }
+
+   /**
+    * 将工厂 inject 数组中的项统一为 { token, optional } 形式
+    * 直接给出的令牌视为必需依赖
+    * @param dependency - 令牌或 OptionalFactoryDependency
+    */
+   private normalizeFactoryDependency(
+      dependency: any
+   ): OptionalFactoryDependency {
+      if (
+         isObject(dependency) &&
+         "token" in dependency &&
+         "optional" in dependency
+      ) {
+         return dependency as OptionalFactoryDependency;
+      }
+      return { token: dependency, optional: false };
+   }
+
+   /**
+    * 解析单个依赖
+    * 框架内置的令牌由 getBuiltInDependency 解析，其余令牌交给 lookupProvider
+    * 依赖初始化失败时，将依赖方记录到异常的依赖链中
+    * @param token - 依赖令牌
+    * @param module - 发起解析的模块
+    * @param contextId - 请求上下文标识
+    * @param site - 依赖的注入位置
+    */
+   private async resolveDependency(
+      token: any,
+      module: any,
+      contextId: ContextId | undefined,
+      site: InjectionSite
+   ) {
+      const builtIn = this.getBuiltInDependency(token, module, site);
+      if (builtIn !== UNKNOWN_DEPENDENCY) {
+         return builtIn;
+      }
+      try {
+         const resolved = await this.lookupProvider(
+            token,
+            module,
+            site.dependant,
+            site.index,
+            contextId
+         );
+         if (resolved !== UNKNOWN_DEPENDENCY) {
+            return resolved;
+         }
+      } catch (error) {
+         if (error instanceof ProviderInitializationException) {
+            error.addDependant(site.dependant);
+         }
+         throw error;
+      }
+
+      // 找不到提供者：可选依赖返回 undefined，必需依赖抛出异常
+      if (site.optional) {
+         return undefined;
+      }
+      throw new UnknownDependenciesException(
+         site.dependant,
+         this.unwrapForwardReference(token),
+         site.dependencies ?? [],
+         site.index,
+         module,
+         site.key
+      );
+   }
+
+   /**
+    * 解析框架内置的依赖令牌
+    * INQUIRER 令牌解析为注入当前瞬态提供者的类或令牌
+    * ModuleRef 令牌解析为发起解析的模块对应的 ModuleRef
+    * DiscoveryService、MetadataScanner 和 LazyModuleLoader 令牌解析为应用共享的实例
+    * @param token - 依赖令牌
+    * @param module - 发起解析的模块
+    * @param site - 依赖的注入位置
+    * @returns 内置依赖，令牌不是内置令牌时返回 UNKNOWN_DEPENDENCY
+    */
+   private getBuiltInDependency(token: any, module: any, site: InjectionSite) {
+      switch (token) {
+         case INQUIRER:
+            return site.inquirer;
+         case ModuleRef:
+            return this.getModuleRef(module);
+         case DiscoveryService:
+            return this.getDiscoveryService();
+         case MetadataScanner:
+            return this.getMetadataScanner();
+         case LazyModuleLoader:
+            return this.getLazyModuleLoader();
+         default:
+            return UNKNOWN_DEPENDENCY;
+      }
+   }
+
+   /**
+    * 在请求上下文中解析提供者或控制器
+    * 同一上下文内多次解析返回同一个实例，持久依赖树在策略聚合的上下文内共享实例
+    * @param provider - 提供者定义或控制器类
+    * @param module - 宿主模块
+    * @param contextId - 请求上下文标识
+    * @param inquirer - 提供者为瞬态时的注入方
+    * @returns 当前上下文中的实例
+    */
+   public async resolvePerContext(
+      provider: any,
+      module: any,
+      contextId: ContextId,
+      inquirer?: any
+   ) {
+      const token = this.getProviderToken(provider);
+      contextId = this.getInstanceContextId(provider, module, contextId);
+      if (
+         inquirer !== undefined &&
+         this.getProviderScope(provider) === Scope.TRANSIENT
+      ) {
+         if (!this.hasTransientProvider(token, module, inquirer, contextId)) {
+            await this.collectProviders(provider, module, contextId, inquirer);
+         }
+         return this.getTransientProvider(token, module, inquirer, contextId);
+      }
+      if (!this.hasProvider(token, module, contextId)) {
+         await this.collectProviders(provider, module, contextId);
+      }
+      return this.getProvider(token, module, contextId);
+   }
+
+   /**
+    * 将请求对象绑定到上下文，供 REQUEST 令牌注入
+    * @param request - 当前请求对象
+    * @param contextId - 请求上下文标识
+    */
+   public registerRequestByContextId(request: any, contextId: ContextId) {
+      this.contextRequests.set(contextId, request);
+   }
+
+   /**
+    * 检查提供者的依赖树是否静态
+    * 提供者自身为请求作用域，或任一依赖（含 REQUEST）为请求作用域时，依赖树不是静态的
+    * @param provider - 提供者定义或控制器类
+    * @param module - 宿主模块
+    * @returns 依赖树是否静态
+    */
+   public isDependencyTreeStatic(
+      provider: any,
+      module?: any,
+      visited = new Set<any>()
+   ): boolean {
+      const token = this.getProviderToken(provider);
+      const cached = this.staticTreeCache.get(module)?.get(token);
+      if (cached !== undefined) {
+         return cached;
+      }
+      // 循环依赖时视为静态，由实例化过程处理
+      if (visited.has(provider)) {
+         return true;
+      }
+      visited.add(provider);
+
+      const isStatic =
+         this.getProviderScope(provider) !== Scope.REQUEST &&
+         this.getDependencyTokens(provider).every((dependency) =>
+            this.isTokenTreeStatic(dependency, module, visited)
+         );
+
+      if (!this.staticTreeCache.has(module)) {
+         this.staticTreeCache.set(module, new Map());
+      }
+      this.staticTreeCache.get(module).set(token, isStatic);
+      return isStatic;
+   }
+
+   /**
+    * 检查依赖令牌对应的依赖树是否静态
+    * @param token - 依赖令牌
+    * @param module - 发起解析的模块
+    */
+   private isTokenTreeStatic(token: any, module: any, visited: Set<any>) {
+      if (token === REQUEST) {
+         return false;
+      }
+      return this.getDependencyDefinitions(token, module).every(
+         ({ definition, hostModule }) =>
+            definition === undefined ||
+            this.isDependencyTreeStatic(definition, hostModule, visited)
+      );
+   }
+
+   /**
+    * 查找使依赖树不再静态的请求作用域提供者
+    * @param provider - 提供者定义
+    * @param module - 宿主模块
+    * @returns 请求作用域提供者的令牌（或 REQUEST），依赖树静态时返回 undefined
+    */
+   private findRequestScopedToken(
+      provider: any,
+      module: any,
+      visited = new Set<any>()
+   ): any {
+      if (
+         visited.has(provider) ||
+         this.isDependencyTreeStatic(provider, module)
+      ) {
+         return undefined;
+      }
+      visited.add(provider);
+      if (this.getProviderScope(provider) === Scope.REQUEST) {
+         return this.getProviderToken(provider);
+      }
+      for (const dependency of this.getDependencyTokens(provider)) {
+         if (dependency === REQUEST) {
+            return REQUEST;
+         }
+         for (const { definition, hostModule } of this.getDependencyDefinitions(
+            dependency,
+            module
+         )) {
+            const scopedToken =
+               definition === undefined
+                  ? undefined
+                  : this.findRequestScopedToken(definition, hostModule, visited);
+            if (scopedToken !== undefined) {
+               return scopedToken;
+            }
+         }
+      }
       return undefined;
    }
 
+   /**
+    * 检查提供者的依赖树是否持久
+    * 请求作用域的提供者由 durable 标记决定；其余非静态提供者在所有非静态依赖都持久时才持久
+    * @param provider - 提供者定义或控制器类
+    * @param module - 宿主模块
+    * @returns 依赖树是否持久
+    */
+   public isDependencyTreeDurable(
+      provider: any,
+      module?: any,
+      visited = new Set<any>()
+   ): boolean {
+      const token = this.getProviderToken(provider);
+      const cached = this.durableTreeCache.get(module)?.get(token);
+      if (cached !== undefined) {
+         return cached;
+      }
+      if (visited.has(provider)) {
+         return true;
+      }
+      visited.add(provider);
+
+      let isDurable: boolean;
+      if (this.isDependencyTreeStatic(provider, module)) {
+         isDurable = false;
+      } else if (this.getProviderScope(provider) === Scope.REQUEST) {
+         isDurable = this.getProviderDurable(provider);
+      } else {
+         isDurable = this.getDependencyTokens(provider).every((dependency) => {
+            if (dependency === REQUEST) {
+               return false;
+            }
+            return this.getDependencyDefinitions(dependency, module).every(
+               ({ definition, hostModule }) =>
+                  definition === undefined ||
+                  this.isDependencyTreeStatic(definition, hostModule) ||
+                  this.isDependencyTreeDurable(definition, hostModule, visited)
+            );
+         });
+      }
+
+      if (!this.durableTreeCache.has(module)) {
+         this.durableTreeCache.set(module, new Map());
+      }
+      this.durableTreeCache.get(module).set(token, isDurable);
+      return isDurable;
+   }
+
+   /**
+    * 获取提供者实例所属的上下文
+    * 持久依赖树交给 ContextIdStrategy 返回的解析函数选择上下文，
+    * 并在该上下文中以策略负载（或原始请求）作为 REQUEST
+    * @param provider - 提供者定义或控制器类
+    * @param module - 宿主模块
+    * @param contextId - 当前请求的上下文标识
+    * @returns 实例使用的上下文标识
+    */
+   private getInstanceContextId(
+      provider: any,
+      module: any,
+      contextId: ContextId
+   ): ContextId {
+      if (!contextId.getParent) {
+         return contextId;
+      }
+      const isTreeDurable = this.isDependencyTreeDurable(provider, module);
+      const instanceContextId = contextId.getParent({
+         token: this.getProviderToken(provider),
+         isTreeDurable,
+      });
+      if (!instanceContextId || instanceContextId === contextId) {
+         return contextId;
+      }
+      if (!this.contextRequests.has(instanceContextId)) {
+         this.contextRequests.set(
+            instanceContextId,
+            contextId.payload ?? this.contextRequests.get(contextId)
+         );
+      }
+      return instanceContextId;
+   }
+
+   /**
+    * 查找依赖令牌的提供者定义及其宿主模块
+    * 多提供者令牌返回对当前模块可见的每次注册的定义
+    * @param token - 依赖令牌
+    * @param module - 发起解析的模块
+    */
+   public getDependencyDefinitions(
+      token: any,
+      module: any
+   ): { definition: any; hostModule: any }[] {
+      if (this.moduleRegistry.isMultiProvider(token)) {
+         return this.moduleRegistry
+            .getMultiProviderEntries(token, module)
+            .map((entry) => ({
+               definition: this.moduleRegistry.findProviderDefinitionByToken(
+                  entry.token,
+                  entry.module
+               ),
+               hostModule: entry.module,
+            }));
+      }
+      const hostModule =
+         module !== undefined
+            ? this.moduleRegistry.getHostModule(token, module)
+            : module;
+      const definition = this.moduleRegistry.findProviderDefinitionByToken(
+         token,
+         hostModule
+      );
+      return [{ definition, hostModule }];
+   }
+
+   /**
+    * 获取提供者声明的作用域
+    * @param provider - 提供者定义
+    * @returns 作用域
+    */
+   public getProviderScope(provider: any): Scope {
+      if (typeof provider === "function") {
+         return (
+            Reflect.getMetadata(SCOPE_OPTIONS_METADATA, provider)?.scope ??
+            Scope.DEFAULT
+         );
+      }
+      if ((provider as Provider)?.useClass) {
+         return (
+            (provider as Provider).scope ??
+            this.getProviderScope((provider as Provider).useClass)
+         );
+      }
+      if ((provider as Provider)?.useFactory) {
+         return (provider as Provider).scope ?? Scope.DEFAULT;
+      }
+      return Scope.DEFAULT;
+   }
+
+   /**
+    * 获取提供者是否声明为持久
+    * @param provider - 提供者定义
+    */
+   private getProviderDurable(provider: any): boolean {
+      if (typeof provider === "function") {
+         return (
+            Reflect.getMetadata(SCOPE_OPTIONS_METADATA, provider)?.durable ===
+            true
+         );
+      }
+      if ((provider as Provider)?.useClass) {
+         return (
+            (provider as Provider).durable ??
+            this.getProviderDurable((provider as Provider).useClass)
+         );
+      }
+      return (provider as Provider)?.durable === true;
+   }
+
+   /**
+    * 获取提供者依赖的令牌列表（不实例化）
+    * @param provider - 提供者定义
+    * @returns 依赖令牌数组
+    */
+   public getDependencyTokens(provider: any): any[] {
+      let tokens: any[] = [];
+      const metatype =
+         typeof provider === "function"
+            ? provider
+            : (provider as Provider)?.useClass;
+      if (metatype) {
+         tokens = [
+            ...this.getClassDependencyTokens(metatype),
+            ...this.getPropertyDependencies(metatype).map(({ type }) => type),
+         ];
+      } else if ((provider as Provider)?.useFactory) {
+         tokens = ((provider as Provider).inject ?? []).map(
+            (dependency) => this.normalizeFactoryDependency(dependency).token
+         );
+      } else if ((provider as Provider)?.useExisting) {
+         tokens = [(provider as Provider).useExisting];
+      }
+      return tokens.map((token) => this.unwrapForwardReference(token));
+   }
+
+   /**
+    * 获取类构造函数参数对应的依赖令牌
+    * 优先使用 @Inject 声明的令牌，否则使用参数类型
+    * @param provider - 提供者类
+    * @returns 依赖令牌数组
+    */
+   private getClassDependencyTokens(provider: Function): any[] {
+      // 获取构造函数参数类型元数据
+      const paramtypes =
+         Reflect.getMetadata(PARAMTYPES_METADATA, provider) ?? [];
+      // 获取自定义依赖元数据
+      const selfDeclaredDeps =
+         Reflect.getMetadata(SELF_DECLARED_DEPS_METADATA, provider) ?? [];
+
+      return paramtypes.map((paramtype: any, index: number) => {
+         // 查找此参数位置的自定义依赖
+         const matchedSelfDeclaredDep = selfDeclaredDeps.find(
+            (dep: any) => dep.index === index
+         );
+
+         // 使用自定义依赖令牌或参数类型
+         return matchedSelfDeclaredDep?.param ?? paramtype;
+      });
+   }
+
+   /**
+    * 获取类的属性依赖，子类声明的同名属性覆盖基类
+    * @param metatype - 类
+    * @returns 属性依赖数组 { key, type }
+    */
+   private getPropertyDependencies(
+      metatype: Function
+   ): { key: string | symbol; type: any }[] {
+      const properties = new Map<string | symbol, any>();
+      for (const property of this.getInheritedMetadata(
+         PROPERTY_DEPS_METADATA,
+         metatype
+      )) {
+         properties.set(property.key, property);
+      }
+      return [...properties.values()];
+   }
+
+   /**
+    * 沿继承链（从基类到子类）收集类上声明的数组元数据
+    * @param metadataKey - 元数据键
+    * @param metatype - 类
+    */
+   private getInheritedMetadata(metadataKey: string, metatype: Function) {
+      const chain: Function[] = [];
+      for (
+         let target = metatype;
+         target && target !== Function.prototype;
+         target = Object.getPrototypeOf(target)
+      ) {
+         chain.unshift(target);
+      }
+      return chain.flatMap(
+         (target) => Reflect.getOwnMetadata(metadataKey, target) ?? []
+      );
+   }
+
+   /**
+    * 登记正在实例化的类提供者，供 forwardRef 依赖提前获取占位实例
+    * @param token - 提供者令牌
+    * @param module - 宿主模块
+    * @param metatype - 提供者类
+    * @returns 占位记录
+    */
+   private addPendingInstance(
+      token: any,
+      module: any,
+      metatype: Function
+   ): PendingInstance {
+      const pending: PendingInstance = {
+         instance: Object.create(metatype.prototype),
+         isReferenced: false,
+      };
+      if (!this.pendingInstances.has(module)) {
+         this.pendingInstances.set(module, new Map());
+      }
+      this.pendingInstances.get(module).set(token, pending);
+      return pending;
+   }
+
+   /**
+    * 完成类提供者的实例化
+    * 占位实例已被注入时，将真实实例的属性合并到占位实例上，保证双方引用同一对象
+    * @param pending - 占位记录
+    * @param instance - 真实实例
+    * @returns 最终保存的实例
+    */
+   private settlePendingInstance(pending: PendingInstance, instance: any) {
+      return pending.isReferenced
+         ? Object.assign(pending.instance, instance)
+         : instance;
+   }
+
+   /**
+    * 获取模块中已实例化的静态提供者和控制器实例
+    * 同一实例以多个令牌注册时只返回一次
+    * @param module - 宿主模块
+    * @returns 实例列表
+    */
+   public getModuleInstances(module: any): any[] {
+      return [...new Set(this.providers.get(module)?.values() ?? [])];
+   }
+
    /**
     * 获取已解析的提供者实例或值
     * @param token - 提供者令牌
+    * @param module - 宿主模块，未指定时在所有模块中查找
+    * @param contextId - 请求上下文标识
     * @returns 已收集的提供者实例或值
     */
-   public getProvider(provider: any): any | undefined {
-      return this.providers.get(provider);
+   public getProvider(
+      token: any,
+      module?: any,
+      contextId?: ContextId
+   ): any | undefined {
+      return this.findInstances(token, module, contextId)?.get(token);
    }
 
+   /**
+    * 检查提供者是否已被实例化
+    * @param token - 提供者令牌
+    * @param module - 宿主模块，未指定时在所有模块中查找
+    * @param contextId - 请求上下文标识
+    */
+   public hasProvider(
+      token: any,
+      module?: any,
+      contextId?: ContextId
+   ): boolean {
+      return this.findInstances(token, module, contextId) !== undefined;
+   }
+
+   /**
+    * 获取所有模块中以指定令牌注册的静态实例
+    * @param token - 提供者令牌
+    * @returns 实例列表，多提供者按注册顺序排列
+    */
    public getProvidersByToken(token: string | symbol) {
+      // 多提供者按注册顺序返回每次注册的实例
+      if (this.moduleRegistry.isMultiProvider(token)) {
+         return this.moduleRegistry
+            .getMultiProviderEntries(token)
+            .filter((entry) => this.hasProvider(entry.token, entry.module))
+            .map((entry) => this.getProvider(entry.token, entry.module));
+      }
       const providers: any[] = [];
-      for (const [key, value] of this.providers.entries()) {
-         if (key === token) {
-            providers.push(value);
+      for (const instances of this.providers.values()) {
+         for (const [key, value] of instances.entries()) {
+            if (key === token) {
+               providers.push(value);
+            }
          }
       }
       return providers;
    }
+
+   /**
+    * 获取为指定注入方创建的瞬态实例
+    * @param token - 提供者令牌
+    * @param module - 宿主模块
+    * @param inquirer - 注入方
+    * @param contextId - 请求上下文标识
+    */
+   public getTransientProvider(
+      token: any,
+      module: any,
+      inquirer: any,
+      contextId?: ContextId
+   ): any | undefined {
+      return this.findTransientInstances(
+         token,
+         module,
+         inquirer,
+         contextId
+      )?.get(inquirer);
+   }
+
+   /**
+    * 检查是否已为指定注入方创建瞬态实例
+    * @param token - 提供者令牌
+    * @param module - 宿主模块
+    * @param inquirer - 注入方
+    * @param contextId - 请求上下文标识
+    */
+   public hasTransientProvider(
+      token: any,
+      module: any,
+      inquirer: any,
+      contextId?: ContextId
+   ): boolean {
+      return (
+         this.findTransientInstances(token, module, inquirer, contextId) !==
+         undefined
+      );
+   }
+
+   /**
+    * 查找保存了指定注入方瞬态实例的实例表
+    * 先查找静态实例，再查找请求上下文中的实例
+    */
+   private findTransientInstances(
+      token: any,
+      module: any,
+      inquirer: any,
+      contextId?: ContextId
+   ): Map<any, any> | undefined {
+      const stores = [this.transientProviders];
+      if (contextId && this.contextTransientProviders.has(contextId)) {
+         stores.push(this.contextTransientProviders.get(contextId));
+      }
+      return stores
+         .map((store) => store.get(module)?.get(token))
+         .find((instances) => instances?.has(inquirer));
+   }
+
+   /**
+    * 查找保存了指定令牌实例的模块实例表
+    * 先查找静态实例，再查找请求上下文中的实例
+    * @param token - 提供者令牌
+    * @param module - 宿主模块，未指定时在所有模块中查找
+    * @param contextId - 请求上下文标识
+    */
+   private findInstances(
+      token: any,
+      module?: any,
+      contextId?: ContextId
+   ): Map<any, any> | undefined {
+      const stores = [this.providers];
+      if (contextId && this.contextProviders.has(contextId)) {
+         stores.push(this.contextProviders.get(contextId));
+      }
+
+      for (const store of stores) {
+         if (module !== undefined) {
+            if (store.get(module)?.has(token)) {
+               return store.get(module);
+            }
+            continue;
+         }
+         for (const instances of store.values()) {
+            if (instances.has(token)) {
+               return instances;
+            }
+         }
+      }
+      return undefined;
+   }
+
+   /**
+    * 获取提供者的令牌
+    * @param provider - 提供者定义
+    */
+   public getProviderToken(provider: any) {
+      return isObject(provider) && "provide" in provider
+         ? provider.provide
+         : provider;
+   }
+
+   /**
+    * 获取 @Module 为类标记的宿主模块
+    * @param target - 提供者或控制器类
+    */
+   private getIsolatedModule(target: any) {
+      return typeof target === "function"
+         ? Reflect.getMetadata(MODULE_ISOLATION, target)
+         : undefined;
+   }
+
+   /**
+    * 保存创建完成的实例，并移除其占位记录
+    * 瞬态实例按注入方保存，请求作用域实例按上下文保存
+    * @param token - 提供者令牌
+    * @param instance - 实例或值
+    * @param module - 宿主模块
+    * @param contextId - 实例所属的请求上下文
+    * @param inquirer - 瞬态提供者的注入方
+    */
+   private saveInstance(
+      token: any,
+      instance: any,
+      module: any,
+      contextId: ContextId | undefined,
+      inquirer: any
+   ) {
+      this.pendingInstances.get(module)?.delete(token);
+      this.setProvider(token, instance, module, contextId, inquirer);
+   }
+
+   /**
+    * 保存提供者实例到宿主模块
+    * @param token - 提供者令牌
+    * @param instance - 实例或值
+    * @param module - 宿主模块
+    * @param contextId - 请求上下文标识，未指定时保存为静态实例
+    * @param inquirer - 瞬态提供者的注入方，指定时按注入方保存
+    */
+   private setProvider(
+      token: any,
+      instance: any,
+      module: any,
+      contextId?: ContextId,
+      inquirer?: any
+   ) {
+      if (inquirer !== undefined) {
+         this.setTransientProvider(
+            token,
+            instance,
+            module,
+            inquirer,
+            contextId
+         );
+         return;
+      }
+
+      let store = this.providers;
+      if (contextId) {
+         if (!this.contextProviders.has(contextId)) {
+            this.contextProviders.set(contextId, new Map());
+         }
+         store = this.contextProviders.get(contextId);
+      }
+
+      if (!store.has(module)) {
+         store.set(module, new Map());
+      }
+      store.get(module).set(token, instance);
+   }
+
+   /**
+    * 按注入方保存瞬态实例
+    * @param token - 提供者令牌
+    * @param instance - 实例或值
+    * @param module - 宿主模块
+    * @param inquirer - 注入方
+    * @param contextId - 请求上下文标识
+    */
+   private setTransientProvider(
+      token: any,
+      instance: any,
+      module: any,
+      inquirer: any,
+      contextId?: ContextId
+   ) {
+      let store = this.transientProviders;
+      if (contextId) {
+         if (!this.contextTransientProviders.has(contextId)) {
+            this.contextTransientProviders.set(contextId, new Map());
+         }
+         store = this.contextTransientProviders.get(contextId);
+      }
+
+      if (!store.has(module)) {
+         store.set(module, new Map());
+      }
+      const tokens = store.get(module);
+      if (!tokens.has(token)) {
+         tokens.set(token, new Map());
+      }
+      tokens.get(token).set(inquirer, instance);
+   }
 }
@@ -0,0 +1,110 @@
+import { Request as ExpressRequest } from "express";
+import { VersioningType } from "@/packages/common/enums/version-type.enum";
+import {
+   UriVersioningOptions,
+   VERSION_NEUTRAL,
+   VersioningOptions,
+   VersionValue,
+} from "@/packages/common/interfaces/version-options.interface";
+
+/** 路由的单个版本：版本号或 VERSION_NEUTRAL */
+export type RouteVersion = string | typeof VERSION_NEUTRAL;
+
+/**
+ * 将版本值规范化为去重后的版本列表
+ * 未指定版本的路由与版本无关，匹配任意版本或没有版本的请求
+ * @param version - @Version()、@Controller() 或 defaultVersion 指定的版本
+ */
+export function normalizeVersions(version?: VersionValue): RouteVersion[] {
+   if (version === undefined) {
+      return [VERSION_NEUTRAL];
+   }
+   const versions: RouteVersion[] = Array.isArray(version)
+      ? version
+      : [version];
+   return [...new Set(versions)];
+}
+
+/**
+ * 获取 URI 版本控制中版本对应的路径段
+ * @param version - 路由版本，VERSION_NEUTRAL 不添加路径段
+ * @param options - URI 版本控制选项，prefix 默认为 "v"，为 false 时不加前缀
+ */
+export function getUriVersionSegment(
+   version: RouteVersion,
+   options: UriVersioningOptions
+): string {
+   if (version === VERSION_NEUTRAL) {
+      return "";
+   }
+   const prefix = options.prefix === false ? "" : (options.prefix ?? "v");
+   return `${prefix}${version}`;
+}
+
+/**
+ * 从请求中提取版本，按优先级从高到低排列
+ * URI 版本控制的版本体现在路由路径中，不需要提取
+ * @param req - 当前请求
+ * @param options - 版本控制选项
+ * @returns 请求的版本列表，请求未指定版本时为空
+ */
+export function extractRequestVersions(
+   req: ExpressRequest,
+   options: VersioningOptions
+): string[] {
+   switch (options.type) {
+      case VersioningType.HEADER: {
+         const value = req.headers[options.header.toLowerCase()];
+         return typeof value === "string" && value.trim()
+            ? [value.trim()]
+            : [];
+      }
+      case VersioningType.MEDIA_TYPE: {
+         // 如 Accept: application/json;v=2，key 为 "v="
+         const parameter = (req.headers.accept ?? "")
+            .split(/[,;]/)
+            .map((part) => part.trim())
+            .find((part) => part.startsWith(options.key));
+         const version = parameter?.slice(options.key.length);
+         return version ? [version] : [];
+      }
+      case VersioningType.CUSTOM: {
+         const versions = options.extractor(req);
+         return (Array.isArray(versions) ? versions : [versions]).filter(
+            Boolean
+         );
+      }
+      default:
+         return [];
+   }
+}
+
+/**
+ * 按请求版本的优先级选择匹配的路由
+ * 没有路由匹配请求的版本（或请求未指定版本）时，选择版本无关的路由
+ * @param routes - 同一路径和请求方法下各版本的路由
+ * @param requestVersions - 按优先级从高到低排列的请求版本
+ * @returns 匹配的路由，没有匹配时返回 undefined
+ */
+export function selectVersionedRoute<T extends { versions: RouteVersion[] }>(
+   routes: T[],
+   requestVersions: string[]
+): T | undefined {
+   for (const version of requestVersions) {
+      const route = routes.find(({ versions }) => versions.includes(version));
+      if (route) {
+         return route;
+      }
+   }
+   return routes.find(({ versions }) => versions.includes(VERSION_NEUTRAL));
+}
+
+/**
+ * 格式化路由版本，用于启动日志
+ * @param versions - 路由版本列表
+ */
+export function formatVersions(versions: RouteVersion[]): string {
+   return versions
+      .map((version) => (version === VERSION_NEUTRAL ? "Neutral" : version))
+      .join(", ");
+}
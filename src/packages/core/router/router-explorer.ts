@@ -11,17 +11,43 @@ import {
    HEADERS_METADATA,
    HTTP_CODE_METADATA,
    METHOD_METADATA,
-   PARAMTYPES_METADATA,
    PATH_METADATA,
    REDIRECT_METADATA,
    ROUTE_ARGS_METADATA,
-   MODULE_METADATA,
+   VERSION_METADATA,
 } from "@/packages/common/constants";
 import { HttpArgumentsHost } from "@/packages/common/interfaces/features/arguments-host.interface";
 import { ProviderCollector } from "../providers/provider-collector";
+import { ModuleRegistry } from "../modules/module-registry";
 import { HttpStatus } from "@/packages/common/enums/http-status.enum";
 import { RouteParamtypes } from "@/packages/common/enums/route-paramtypes.enum";
 import { HTTP_METHOD_MAP } from "./interfaces/http-method-map";
+import { ContextId, ContextIdFactory } from "../helpers/context-id-factory";
+import { VersioningType } from "@/packages/common/enums/version-type.enum";
+import { VersioningOptions } from "@/packages/common/interfaces/version-options.interface";
+import {
+   extractRequestVersions,
+   formatVersions,
+   getUriVersionSegment,
+   normalizeVersions,
+   RouteVersion,
+   selectVersionedRoute,
+} from "./route-versioning";
+
+/** Express 路由处理函数 */
+type RouteHandler = (
+   req: ExpressRequest,
+   res: ExpressResponse,
+   next: NextFunction
+) => Promise<unknown>;
+
+/** 同一路径和请求方法下某些版本的路由 */
+interface VersionedRoute {
+   /** 路由的版本 */
+   versions: RouteVersion[];
+   /** 路由处理函数 */
+   handler: RouteHandler;
+}
 
 /**
  * 路由探索器类
@@ -30,57 +56,98 @@ import { HTTP_METHOD_MAP } from "./interfaces/http-method-map";
  * 2. 解析控制器中的路由装饰器
  * 3. 注册路由处理器
  * 4. 处理路由参数和响应
+ * 5. 启用版本控制后按版本注册路由，同一路径可以同时存在多个版本
  */
 export class RouterExplorer {
    constructor(
       private readonly app: Express,
+      private readonly moduleRegistry: ModuleRegistry,
       private readonly providerCollector: ProviderCollector,
       private readonly handleException: (
          error: any,
          context: any
-      ) => Promise<void>
+      ) => Promise<void>,
+      private readonly logger: Logger = new Logger()
    ) {}
 
+   /** 版本控制选项，未启用版本控制时忽略路由的版本 */
+   private versioningOptions?: VersioningOptions;
+   /** 非 URI 版本控制下按 "方法 路径" 分组的各版本路由 */
+   private readonly versionedRoutes = new Map<string, VersionedRoute[]>();
+
+   /**
+    * 启用版本控制，需要在探索路由之前调用
+    * @param options - 版本控制选项
+    */
+   public setVersioningOptions(options: VersioningOptions) {
+      this.versioningOptions = options;
+   }
+
    /**
     * 探索并注册模块中所有控制器的路由
+    * 控制器和导入模块从模块注册器中读取，包括动态模块中声明的项
     * @param module - 包含控制器的模块
+    * @param explored - 已探索的模块，避免循环导入时重复注册
     */
-   public explore(module: any) {
+   public async explore(module: any, explored = new Set<any>()) {
+      if (!module || explored.has(module)) {
+         return;
+      }
+      explored.add(module);
+
       // 获取当前模块的控制器
-      const controllers =
-         Reflect.getMetadata(MODULE_METADATA.CONTROLLERS, module) || [];
+      const controllers = this.moduleRegistry.getModuleControllers(module);
 
       // 获取导入的模块
-      const imports =
-         Reflect.getMetadata(MODULE_METADATA.IMPORTS, module) || [];
+      const imports = this.moduleRegistry.getModuleImports(module);
 
       // 注册当前模块的控制器路由
       for (const Controller of controllers) {
-         this.registerControllerRoutes(Controller);
+         await this.registerControllerRoutes(Controller, module);
       }
 
       // 递归处理导入模块的控制器
       for (const importedModule of imports) {
-         this.explore(importedModule);
+         await this.explore(importedModule, explored);
       }
 
-      Logger.log(`Routes explored and registered`, "RouterExplorer");
+      this.logger.log(`Routes explored and registered`, "RouterExplorer");
    }
 
    /**
     * 注册单个控制器的所有路由
     * @param Controller - 控制器类
+    * @param module - 控制器所属的模块
     */
-   private registerControllerRoutes(Controller: any) {
-      // 获取控制器的依赖并实例化
-      const providerDependencies = this.getProviderDependencies(Controller);
-      const controllerInstance =
-         this.providerCollector.getProvider(Controller) ||
-         new Controller(...providerDependencies);
-
-      // 获取控制器的基础路径
+   private async registerControllerRoutes(Controller: any, module: any) {
+      // 静态依赖树的控制器全局共享一个实例，否则每个请求在其上下文中创建实例
+      let getController: (req: ExpressRequest) => Promise<any>;
+      if (this.providerCollector.isDependencyTreeStatic(Controller, module)) {
+         // 获取控制器的依赖并实例化，实例保存在宿主模块中以便调用生命周期钩子
+         if (!this.providerCollector.hasProvider(Controller, module)) {
+            await this.providerCollector.collectProviders(Controller, module);
+         }
+         const controllerInstance = this.providerCollector.getProvider(
+            Controller,
+            module
+         );
+         getController = async () => controllerInstance;
+      } else {
+         getController = (req) =>
+            this.providerCollector.resolvePerContext(
+               Controller,
+               module,
+               this.getContextId(req)
+            );
+      }
+
+      // 获取控制器的基础路径和版本
       const prefix = Reflect.getMetadata("prefix", Controller) || "";
-      Logger.log(`${Controller.name} {${prefix}}`, "RoutesResolver");
+      const controllerVersion = Reflect.getMetadata(
+         VERSION_METADATA,
+         Controller
+      );
+      this.logger.log(`${Controller.name} {${prefix}}`, "RoutesResolver");
 
       // 遍历控制器原型上的所有方法
       const controllerPrototype = Controller.prototype;
@@ -115,105 +182,177 @@ export class RouterExplorer {
             continue;
          }
 
+         // 方法的版本优先于控制器的版本，都未指定时使用默认版本
+         const version =
+            Reflect.getMetadata(VERSION_METADATA, method) ??
+            controllerVersion ??
+            this.versioningOptions?.defaultVersion;
+
          // 注册路由处理器
          this.registerRoute(
-            controllerInstance,
-            propName,
-            method,
             routePath,
             methodName,
-            httpCodeMetadata,
-            redirectURLMetadata,
-            headers
+            normalizeVersions(version),
+            this.createRouteHandler(
+               getController,
+               propName,
+               method,
+               methodName,
+               httpCodeMetadata,
+               redirectURLMetadata,
+               headers
+            )
          );
       }
    }
 
    /**
-    * 注册单个路由处理器
-    * @param controller - 控制器实例
+    * 按版本控制方式注册路由
+    * 1. 未启用版本控制：直接注册路由
+    * 2. URI 版本控制：每个版本注册一个带版本路径段的路由
+    * 3. 其他版本控制：同一路径和方法只注册一个路由，按请求版本分发到对应的处理函数
+    * @param routePath - 路由路径
+    * @param methodName - HTTP 方法名
+    * @param versions - 路由的版本
+    * @param handler - 路由处理函数
+    */
+   private registerRoute(
+      routePath: string,
+      methodName: string,
+      versions: RouteVersion[],
+      handler: RouteHandler
+   ) {
+      const options = this.versioningOptions;
+      if (!options) {
+         this.app[methodName](routePath, handler);
+         this.logRoute(routePath, methodName);
+         return;
+      }
+
+      if (options.type === VersioningType.URI) {
+         for (const version of versions) {
+            const versionedPath = path.posix.join(
+               "/",
+               getUriVersionSegment(version, options),
+               routePath
+            );
+            this.app[methodName](versionedPath, handler);
+            this.logRoute(versionedPath, methodName, [version]);
+         }
+         return;
+      }
+
+      const key = `${methodName} ${routePath}`;
+      let routes = this.versionedRoutes.get(key);
+      if (!routes) {
+         routes = [];
+         this.versionedRoutes.set(key, routes);
+         // 请求时再选择版本，后注册的版本同样参与匹配
+         this.app[methodName](
+            routePath,
+            (req: ExpressRequest, res: ExpressResponse, next: NextFunction) => {
+               const route = selectVersionedRoute(
+                  routes,
+                  extractRequestVersions(req, options)
+               );
+               return route ? route.handler(req, res, next) : next();
+            }
+         );
+      }
+      routes.push({ versions, handler });
+      this.logRoute(routePath, methodName, versions);
+   }
+
+   /**
+    * 输出路由映射日志
+    * @param routePath - 路由路径
+    * @param methodName - HTTP 方法名
+    * @param versions - 路由的版本，未启用版本控制时不输出
+    */
+   private logRoute(
+      routePath: string,
+      methodName: string,
+      versions?: RouteVersion[]
+   ) {
+      const version = versions ? ` (version: ${formatVersions(versions)})` : "";
+      this.logger.log(
+         `Mapped {${routePath}, ${methodName.toUpperCase()}}${version} route`,
+         "RouterExplorer"
+      );
+   }
+
+   /**
+    * 创建单个路由的处理函数
+    * @param getController - 根据当前请求获取控制器实例的函数
     * @param propName - 方法名
     * @param method - 方法函数
-    * @param routePath - 路由路径
     * @param methodName - HTTP 方法名
     * @param httpCodeMetadata - HTTP 状态码
     * @param redirectURLMetadata - 重定向 URL
     * @param headers - 响应头
     */
-   private registerRoute(
-      controller: any,
+   private createRouteHandler(
+      getController: (req: ExpressRequest) => Promise<any>,
       propName: string,
       method: Function,
-      routePath: string,
       methodName: string,
       httpCodeMetadata: number,
       redirectURLMetadata: string,
       headers: any
-   ) {
-      this.app[methodName](
-         routePath,
-         async (
-            req: ExpressRequest,
-            res: ExpressResponse,
-            next: NextFunction
-         ) => {
-            const context = this.createCunstomParamFactoryContext(
+   ): RouteHandler {
+      return async (
+         req: ExpressRequest,
+         res: ExpressResponse,
+         next: NextFunction
+      ) => {
+         const context = this.createCunstomParamFactoryContext(req, res, next);
+         try {
+            const controller = await getController(req);
+            // 解析路由参数
+            const args = this.resolveRouteArgs(
+               controller,
+               propName,
                req,
                res,
                next
             );
-            try {
-               // 解析路由参数
-               const args = this.resolveRouteArgs(
-                  controller,
-                  propName,
-                  req,
-                  res,
-                  next
-               );
-               const result = await method.call(controller, ...args);
-
-               // 设置响应状态码
-               if (httpCodeMetadata) {
-                  res.statusCode = httpCodeMetadata;
-               } else if (methodName === "post") {
-                  res.statusCode = 201;
-               }
-
-               // 处理重定向
-               if (result?.url) {
-                  return res.redirect(result.statusCode || 302, result.url);
-               }
-               if (redirectURLMetadata) {
-                  return res.redirect(
-                     httpCodeMetadata || HttpStatus.FOUND,
-                     redirectURLMetadata
-                  );
-               }
-
-               // 发送响应
-               const wasUsedResponseMetadata = this.getReqponseOrNextMetadata(
-                  controller,
-                  propName
+            const result = await method.call(controller, ...args);
+
+            // 设置响应状态码
+            if (httpCodeMetadata) {
+               res.statusCode = httpCodeMetadata;
+            } else if (methodName === "post") {
+               res.statusCode = 201;
+            }
+
+            // 处理重定向
+            if (result?.url) {
+               return res.redirect(result.statusCode || 302, result.url);
+            }
+            if (redirectURLMetadata) {
+               return res.redirect(
+                  httpCodeMetadata || HttpStatus.FOUND,
+                  redirectURLMetadata
                );
-               if (
-                  !wasUsedResponseMetadata ||
-                  wasUsedResponseMetadata?.data?.passthrough
-               ) {
-                  const _headers = new Headers(headers);
-                  res.setHeaders(_headers);
-                  return res.send(result);
-               }
-            } catch (error) {
-               await this.handleException(error, context);
             }
-         }
-      );
 
-      Logger.log(
-         `Mapped {${routePath}, ${methodName.toUpperCase()}} route`,
-         "RouterExplorer"
-      );
+            // 发送响应
+            const wasUsedResponseMetadata = this.getReqponseOrNextMetadata(
+               controller,
+               propName
+            );
+            if (
+               !wasUsedResponseMetadata ||
+               wasUsedResponseMetadata?.data?.passthrough
+            ) {
+               const _headers = new Headers(headers);
+               res.setHeaders(_headers);
+               return res.send(result);
+            }
+         } catch (error) {
+            await this.handleException(error, context);
+         }
+      };
    }
 
    /**
@@ -354,14 +493,14 @@ export class RouterExplorer {
    }
 
    /**
-    * 获取提供者的依赖项
-    * 用于控制器实例化时的依赖注入
+    * 获取请求的上下文标识
+    * 首次访问时由 ContextIdFactory 创建并绑定到请求对象，同一请求内共享
+    * @param req - 当前请求对象
+    * @returns 请求上下文标识
     */
-   private getProviderDependencies(provider: any) {
-      const parserProvider =
-         Reflect.getMetadata(PARAMTYPES_METADATA, provider) ?? [];
-      return parserProvider.map((provider) => {
-         return this.providerCollector.getProvider(provider);
-      });
+   private getContextId(req: ExpressRequest): ContextId {
+      const contextId = ContextIdFactory.getByRequest(req);
+      this.providerCollector.registerRequestByContextId(req, contextId);
+      return contextId;
    }
 }
@@ -0,0 +1,97 @@
+import "reflect-metadata";
+import "../utils/test-container";
+import { Module } from "@/packages/common/decorators/modules";
+import { Inject } from "@/packages/common/decorators/core/inject.decorator";
+import { MODULE_METADATA } from "@/packages/common/constants";
+import { Injectable } from "@/packages/common/decorators/core/injectable.decorator";
+import { Scope } from "@/packages/common/interfaces/scope-options.interface";
+import { NestFactory } from "../../nest-factory";
+import { NestApplicationContext } from "../../nest-application-context";
+import { createContextId } from "../../helpers/context-id-factory";
+
+describe("NestFactory.createApplicationContext", () => {
+   const calls: string[] = [];
+
+   @Injectable()
+   class ReportService {
+      onModuleInit() {
+         calls.push("init");
+      }
+
+      onModuleDestroy() {
+         calls.push("destroy");
+      }
+   }
+
+   @Injectable({ scope: Scope.REQUEST })
+   class ReportJob {}
+
+   @Module({ providers: [ReportService, ReportJob], exports: [ReportService] })
+   class ReportsModule {}
+
+   @Module({ imports: [ReportsModule] })
+   class WorkerModule {}
+
+   beforeEach(() => {
+      calls.length = 0;
+   });
+
+   it("should bootstrap modules and run lifecycle hooks", async () => {
+      const context = await NestFactory.createApplicationContext(WorkerModule);
+
+      expect(context).toBeInstanceOf(NestApplicationContext);
+      expect(context.get(ReportService)).toBeInstanceOf(ReportService);
+      expect(() => context.get(ReportService, { strict: true })).toThrow();
+      expect(calls).toEqual(["init"]);
+
+      await context.close();
+      expect(calls).toEqual(["init", "destroy"]);
+
+      await context.close();
+      expect(calls).toEqual(["init", "destroy"]);
+   });
+
+   it("should resolve scoped providers per context", async () => {
+      const context = await NestFactory.createApplicationContext(WorkerModule);
+      const contextId = createContextId();
+
+      const job = await context.resolve(ReportJob, contextId);
+      expect(job).toBeInstanceOf(ReportJob);
+      expect(await context.resolve(ReportJob, contextId)).toBe(job);
+      expect(await context.resolve(ReportJob)).not.toBe(job);
+   });
+
+   it("should keep dynamic module configuration per context", async () => {
+      @Injectable()
+      class TenantService {
+         constructor(@Inject("TENANT") readonly tenant: string) {}
+      }
+
+      @Module({ providers: [TenantService], exports: [TenantService] })
+      class TenantModule {
+         static forRoot(tenant: string) {
+            return {
+               module: TenantModule,
+               providers: [{ provide: "TENANT", useValue: tenant }],
+            };
+         }
+      }
+
+      @Module({ imports: [TenantModule.forRoot("admin")] })
+      class AdminModule {}
+
+      @Module({ imports: [TenantModule.forRoot("public")] })
+      class PublicModule {}
+
+      const [admin, api] = await Promise.all([
+         NestFactory.createApplicationContext(AdminModule),
+         NestFactory.createApplicationContext(PublicModule),
+      ]);
+
+      expect(admin.get(TenantService).tenant).toBe("admin");
+      expect(api.get(TenantService).tenant).toBe("public");
+      expect(
+         Reflect.getMetadata(MODULE_METADATA.PROVIDERS, TenantModule)
+      ).toEqual([TenantService]);
+   });
+});
@@ -0,0 +1,58 @@
+import { Module } from "@/packages/common/decorators/modules";
+import { Inject } from "@/packages/common/decorators/core/inject.decorator";
+import { Optional } from "@/packages/common/decorators/core/optional.decorator";
+import { Injectable } from "@/packages/common/decorators/core/injectable.decorator";
+import { Controller } from "@/packages/common/decorators/core/controller.decorator";
+import { Catch } from "@/packages/common/decorators/core/catch.decorator";
+import { Get } from "@/packages/common/decorators/http/request-mapping.decorator";
+import { HttpCode } from "@/packages/common/decorators/http/http-methods.decorator";
+import { HttpException } from "@/packages/common/exceptions/http.exception";
+
+@Injectable()
+export class ConfigService {
+   readonly locale = "zh-CN";
+}
+
+@Injectable()
+export class UsersService {
+   @Inject(ConfigService)
+   config: ConfigService;
+
+   @Inject("CACHE")
+   @Optional()
+   cache?: unknown;
+}
+
+@Controller("users")
+export class UsersController {
+   @Inject(UsersService)
+   users: UsersService;
+
+   @Get(":id")
+   @HttpCode(202)
+   findOne() {
+      return this.users.config.locale;
+   }
+}
+
+@Catch(HttpException)
+export class HttpExceptionFilter {
+   catch(exception: HttpException) {
+      return exception.getStatus();
+   }
+}
+
+@Module({
+   controllers: [UsersController],
+   providers: [ConfigService, UsersService],
+})
+export class AppModule {}
+
+/** 标准装饰器不生成 design:type 元数据，缺少令牌的 @Inject() 在定义类时抛出异常 */
+export const defineFieldWithoutToken = () => {
+   class ReportsService {
+      @Inject()
+      config: unknown;
+   }
+   return ReportsService;
+};
@@ -0,0 +1,66 @@
+import "reflect-metadata";
+import { createContainer } from "../utils/test-container";
+import {
+   CATCH_WATERMARK,
+   FILTER_CATCH_EXCEPTIONS,
+   HTTP_CODE_METADATA,
+   METHOD_METADATA,
+   PATH_METADATA,
+} from "@/packages/common/constants";
+import { RequestMethod } from "@/packages/common/enums/request-method.enum";
+import { HttpException } from "@/packages/common/exceptions/http.exception";
+import {
+   AppModule,
+   ConfigService,
+   HttpExceptionFilter,
+   UsersController,
+   UsersService,
+   defineFieldWithoutToken,
+} from "./fixtures/standard-decorators.fixture";
+
+describe("TC39 standard decorators", () => {
+   it("should compile the fixture without experimentalDecorators", () => {
+      expect((UsersService as any)[Symbol.metadata]).toBeDefined();
+      expect(Reflect.getMetadata("design:paramtypes", UsersService)).toBe(
+         undefined
+      );
+   });
+
+   it("should inject decorated fields without design metadata", async () => {
+      const { moduleRegistry, providerCollector } = createContainer();
+      await moduleRegistry.registerModule(AppModule);
+
+      const users = providerCollector.getProvider(UsersService, AppModule);
+      expect(users.config).toBe(
+         providerCollector.getProvider(ConfigService, AppModule)
+      );
+      expect(users.cache).toBeUndefined();
+
+      const controller = providerCollector.getProvider(
+         UsersController,
+         AppModule
+      );
+      expect(controller.users).toBe(users);
+      expect(controller.findOne()).toBe("zh-CN");
+      expect(defineFieldWithoutToken).toThrow(
+         /requires an explicit token for "config"/
+      );
+   });
+
+   it("should store route and filter metadata on the decorated targets", () => {
+      const handler = UsersController.prototype.findOne;
+      expect(Reflect.getMetadata("prefix", UsersController)).toBe("users");
+      expect(Reflect.getMetadata(PATH_METADATA, handler)).toBe(":id");
+      expect(Reflect.getMetadata(METHOD_METADATA, handler)).toBe(
+         RequestMethod.GET
+      );
+      expect(Reflect.getMetadata(HTTP_CODE_METADATA, handler)).toBe(202);
+
+      expect(Reflect.getMetadata(CATCH_WATERMARK, HttpExceptionFilter)).toBe(
+         true
+      );
+      expect(
+         Reflect.getMetadata(FILTER_CATCH_EXCEPTIONS, HttpExceptionFilter)
+      ).toEqual([HttpException]);
+   });
+});
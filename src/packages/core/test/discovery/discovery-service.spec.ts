@@ -0,0 +1,98 @@
+import "reflect-metadata";
+import { createContainer } from "../utils/test-container";
+import { Module } from "@/packages/common/decorators/modules";
+import { Injectable } from "@/packages/common/decorators/core/injectable.decorator";
+import { Scope } from "@/packages/common/interfaces/scope-options.interface";
+import { DiscoveryService } from "../../discovery/discovery-service";
+import { MetadataScanner } from "../../metadata-scanner";
+
+describe("DiscoveryService", () => {
+   const Job = DiscoveryService.createDecorator<{ name: string }>();
+
+   @Injectable()
+   @Job({ name: "cleanup" })
+   class CleanupJob {
+      @Job({ name: "daily" })
+      runDaily() {}
+
+      runManually() {}
+   }
+
+   @Injectable({ scope: Scope.REQUEST })
+   @Job({ name: "request" })
+   class RequestJob {}
+
+   @Module({ providers: [CleanupJob, RequestJob] })
+   class JobsModule {}
+
+   @Injectable()
+   class JobExplorer {
+      constructor(
+         readonly discoveryService: DiscoveryService,
+         readonly metadataScanner: MetadataScanner
+      ) {}
+   }
+
+   @Module({
+      imports: [JobsModule],
+      providers: [JobExplorer, { provide: "INTERVAL", useValue: 1000 }],
+   })
+   class AppModule {}
+
+   const bootstrap = async () => {
+      const { moduleRegistry, providerCollector } = createContainer();
+      await moduleRegistry.registerModule(AppModule);
+      return providerCollector.getProvider(
+         JobExplorer,
+         AppModule
+      ) as JobExplorer;
+   };
+
+   it("should inject shared discovery service and metadata scanner", async () => {
+      const explorer = await bootstrap();
+
+      expect(explorer.discoveryService).toBeInstanceOf(DiscoveryService);
+      expect(explorer.metadataScanner).toBeInstanceOf(MetadataScanner);
+   });
+
+   it("should find providers marked with a discoverable decorator", async () => {
+      const { discoveryService } = await bootstrap();
+
+      const jobs = discoveryService.getProviders({ metadataKey: Job.KEY });
+      expect(jobs.map((wrapper) => wrapper.metatype)).toEqual([
+         CleanupJob,
+         RequestJob,
+      ]);
+
+      const [cleanup, request] = jobs;
+      expect(cleanup.instance).toBeInstanceOf(CleanupJob);
+      expect(cleanup.host).toBe(JobsModule);
+      expect(discoveryService.getMetadataByDecorator(Job, cleanup)).toEqual({
+         name: "cleanup",
+      });
+      expect(request.isDependencyTreeStatic).toBe(false);
+      expect(request.instance).toBeUndefined();
+   });
+
+   it("should filter by module and read method metadata", async () => {
+      const { discoveryService, metadataScanner } = await bootstrap();
+
+      const providers = discoveryService.getProviders({
+         include: [AppModule],
+      });
+      expect(providers.map((wrapper) => wrapper.token)).toEqual([
+         JobExplorer,
+         "INTERVAL",
+      ]);
+
+      const [cleanup] = discoveryService.getProviders({
+         include: [JobsModule],
+      });
+      const methods = metadataScanner
+         .getAllMethodNames(CleanupJob.prototype)
+         .filter((method) =>
+            discoveryService.getMetadataByDecorator(Job, cleanup, method)
+         );
+      expect(methods).toEqual(["runDaily"]);
+   });
+});
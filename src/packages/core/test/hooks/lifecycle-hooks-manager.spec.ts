@@ -0,0 +1,96 @@
+import "reflect-metadata";
+import { createContainer } from "../utils/test-container";
+import { Module } from "@/packages/common/decorators/modules";
+import { Injectable } from "@/packages/common/decorators/core/injectable.decorator";
+import { LifecycleHooksManager } from "../../hooks/lifecycle-hooks-manager";
+
+describe("LifecycleHooksManager", () => {
+   const calls: string[] = [];
+
+   @Injectable()
+   class DatabaseService {
+      async onModuleInit() {
+         await new Promise((resolve) => setTimeout(resolve, 5));
+         calls.push("database:init");
+      }
+
+      onApplicationBootstrap() {
+         calls.push("database:bootstrap");
+      }
+
+      onModuleDestroy() {
+         calls.push("database:destroy");
+      }
+
+      onApplicationShutdown(signal?: string) {
+         calls.push(`database:shutdown:${signal}`);
+      }
+   }
+
+   @Module({ providers: [DatabaseService], exports: [DatabaseService] })
+   class DatabaseModule {}
+
+   @Injectable()
+   class UsersService {
+      constructor(readonly database: DatabaseService) {}
+
+      onModuleInit() {
+         calls.push("users:init");
+      }
+
+      onModuleDestroy() {
+         calls.push("users:destroy");
+      }
+
+      beforeApplicationShutdown(signal?: string) {
+         calls.push(`users:before-shutdown:${signal}`);
+      }
+   }
+
+   @Module({
+      imports: [DatabaseModule],
+      providers: [
+         UsersService,
+         { provide: "USERS_ALIAS", useExisting: UsersService },
+      ],
+   })
+   class UsersModule {}
+
+   beforeEach(() => {
+      calls.length = 0;
+   });
+
+   const createManager = async () => {
+      const { moduleRegistry, providerCollector } = createContainer();
+      await moduleRegistry.registerModule(UsersModule);
+      return new LifecycleHooksManager(moduleRegistry, providerCollector);
+   };
+
+   it("should call startup hooks in module dependency order", async () => {
+      const manager = await createManager();
+
+      await manager.callInitHook();
+      await manager.callBootstrapHook();
+
+      expect(calls).toEqual([
+         "database:init",
+         "users:init",
+         "database:bootstrap",
+      ]);
+   });
+
+   it("should call shutdown hooks in reverse order with the signal", async () => {
+      const manager = await createManager();
+
+      await manager.callDestroyHook();
+      await manager.callBeforeShutdownHook("SIGTERM");
+      await manager.callShutdownHook("SIGTERM");
+
+      expect(calls).toEqual([
+         "users:destroy",
+         "database:destroy",
+         "users:before-shutdown:SIGTERM",
+         "database:shutdown:SIGTERM",
+      ]);
+   });
+});
@@ -0,0 +1,163 @@
+import "reflect-metadata";
+import { createContainer } from "../utils/test-container";
+import { Module } from "@/packages/common/decorators/modules";
+import { Inject } from "@/packages/common/decorators/core/inject.decorator";
+import { Injectable } from "@/packages/common/decorators/core/injectable.decorator";
+import { ConfigurableModuleBuilder } from "@/packages/common/module-utils/configurable-module.builder";
+
+interface DatabaseOptions {
+   url: string;
+}
+
+describe("ConfigurableModuleBuilder", () => {
+   const createDatabaseModule = () => {
+      const { ConfigurableModuleClass, MODULE_OPTIONS_TOKEN } =
+         new ConfigurableModuleBuilder<DatabaseOptions>({
+            moduleName: "Database",
+         })
+            .setClassMethodName("forRoot")
+            .setFactoryMethodName("createDatabaseOptions")
+            .build();
+
+      @Injectable()
+      class DatabaseService {
+         constructor(
+            @Inject(MODULE_OPTIONS_TOKEN) readonly options: DatabaseOptions
+         ) {}
+      }
+
+      @Module({ providers: [DatabaseService], exports: [DatabaseService] })
+      class DatabaseModule extends ConfigurableModuleClass {}
+
+      return { DatabaseModule, DatabaseService, MODULE_OPTIONS_TOKEN };
+   };
+
+   it("should provide sync options and register global modules", async () => {
+      const { DatabaseModule, DatabaseService, MODULE_OPTIONS_TOKEN } =
+         createDatabaseModule();
+
+      @Injectable()
+      class UsersService {
+         constructor(@Inject(DatabaseService) readonly database: any) {}
+      }
+
+      @Module({ providers: [UsersService] })
+      class UsersModule {}
+
+      @Module({
+         imports: [
+            DatabaseModule.forRoot({ url: "postgres://db", isGlobal: true }),
+            UsersModule,
+         ],
+      })
+      class AppModule {}
+
+      const { moduleRegistry, providerCollector } = createContainer();
+      await moduleRegistry.registerModule(AppModule);
+
+      expect(MODULE_OPTIONS_TOKEN).toBe("DATABASE_MODULE_OPTIONS");
+      const users = providerCollector.getProvider(UsersService, UsersModule);
+      expect(users.database.options).toEqual({ url: "postgres://db" });
+   });
+
+   it("should keep the options of each registration separate", async () => {
+      const { DatabaseModule, DatabaseService } = createDatabaseModule();
+
+      @Injectable()
+      class UsersService {
+         constructor(@Inject(DatabaseService) readonly database: any) {}
+      }
+
+      @Module({
+         imports: [DatabaseModule.forRoot({ url: "postgres://users" })],
+         providers: [UsersService],
+      })
+      class UsersModule {}
+
+      @Injectable()
+      class ReportsService {
+         constructor(@Inject(DatabaseService) readonly database: any) {}
+      }
+
+      @Module({
+         imports: [
+            DatabaseModule.forRootAsync({
+               useFactory: () => ({ url: "postgres://reports" }),
+            }),
+         ],
+         providers: [ReportsService],
+      })
+      class ReportsModule {}
+
+      @Module({ imports: [UsersModule, ReportsModule] })
+      class AppModule {}
+
+      const { moduleRegistry, providerCollector } = createContainer();
+      await moduleRegistry.registerModule(AppModule);
+
+      const users = providerCollector.getProvider(UsersService, UsersModule);
+      const reports = providerCollector.getProvider(
+         ReportsService,
+         ReportsModule
+      );
+      expect(users.database.options).toEqual({ url: "postgres://users" });
+      expect(reports.database.options).toEqual({ url: "postgres://reports" });
+   });
+
+   it("should resolve async options from a factory with injected dependencies", async () => {
+      const { DatabaseModule, DatabaseService } = createDatabaseModule();
+
+      @Module({
+         providers: [{ provide: "DATABASE_URL", useValue: "mysql://db" }],
+         exports: ["DATABASE_URL"],
+      })
+      class ConfigModule {}
+
+      @Module({
+         imports: [
+            DatabaseModule.forRootAsync({
+               imports: [ConfigModule],
+               useFactory: async (url: string) => ({ url }),
+               inject: ["DATABASE_URL"],
+            }),
+         ],
+      })
+      class AppModule {}
+
+      const { moduleRegistry, providerCollector } = createContainer();
+      await moduleRegistry.registerModule(AppModule);
+
+      const database = providerCollector.getProvider(
+         DatabaseService,
+         DatabaseModule
+      );
+      expect(database.options).toEqual({ url: "mysql://db" });
+   });
+
+   it("should create async options with an options factory class", async () => {
+      const { DatabaseModule, DatabaseService } = createDatabaseModule();
+
+      @Injectable()
+      class DatabaseConfigService {
+         createDatabaseOptions(): DatabaseOptions {
+            return { url: "sqlite://memory" };
+         }
+      }
+
+      @Module({
+         imports: [
+            DatabaseModule.forRootAsync({ useClass: DatabaseConfigService }),
+         ],
+      })
+      class AppModule {}
+
+      const { moduleRegistry, providerCollector } = createContainer();
+      await moduleRegistry.registerModule(AppModule);
+
+      const database = providerCollector.getProvider(
+         DatabaseService,
+         DatabaseModule
+      );
+      expect(database.options).toEqual({ url: "sqlite://memory" });
+   });
+});
@@ -0,0 +1,114 @@
+import "reflect-metadata";
+import { createContainer } from "../utils/test-container";
+import { Module } from "@/packages/common/decorators/modules";
+import { Injectable } from "@/packages/common/decorators/core/injectable.decorator";
+import { DynamicModule } from "@/packages/common/interfaces/modules/dynamic-module.interface";
+import { LazyModuleLoader } from "../../modules/lazy-module-loader";
+import { InvalidLazyModuleException } from "../../errors/exceptions";
+
+describe("LazyModuleLoader", () => {
+   @Injectable()
+   class ConfigService {
+      readonly locale = "zh-CN";
+   }
+
+   @Module({ providers: [ConfigService], exports: [ConfigService] })
+   class ConfigModule {}
+
+   @Injectable()
+   class ReportsLoader {
+      constructor(readonly lazyModuleLoader: LazyModuleLoader) {}
+   }
+
+   @Module({ imports: [ConfigModule], providers: [ReportsLoader] })
+   class AppModule {}
+
+   const bootstrap = async () => {
+      const { moduleRegistry, providerCollector } = createContainer();
+      await moduleRegistry.registerModule(AppModule);
+      const { lazyModuleLoader } = providerCollector.getProvider(
+         ReportsLoader,
+         AppModule
+      ) as ReportsLoader;
+      return { moduleRegistry, lazyModuleLoader };
+   };
+
+   it("should register a module from an ES module namespace after bootstrap", async () => {
+      const initialized = jest.fn();
+
+      @Injectable()
+      class ReportsService {
+         constructor(readonly config: ConfigService) {}
+
+         onModuleInit() {
+            initialized();
+         }
+      }
+
+      @Module({ imports: [ConfigModule], providers: [ReportsService] })
+      class ReportsModule {}
+
+      const { moduleRegistry, lazyModuleLoader } = await bootstrap();
+      expect(moduleRegistry.getModules()).not.toContain(ReportsModule);
+
+      const moduleRef = await lazyModuleLoader.load(async () => ({
+         REPORTS_FORMAT: "pdf",
+         ReportsService,
+         ReportsModule,
+      }));
+      const reports = moduleRef.get(ReportsService);
+
+      expect(reports).toBeInstanceOf(ReportsService);
+      expect(reports.config.locale).toBe("zh-CN");
+      expect(initialized).toHaveBeenCalledTimes(1);
+   });
+
+   it("should cache loaded modules", async () => {
+      @Injectable()
+      class PdfService {}
+
+      @Module({ providers: [PdfService] })
+      class PdfModule {}
+
+      const { lazyModuleLoader } = await bootstrap();
+      const [first, second] = await Promise.all([
+         lazyModuleLoader.load(() => PdfModule),
+         lazyModuleLoader.load(async () => PdfModule),
+      ]);
+
+      expect(second).toBe(first);
+      expect(first.get(PdfService)).toBeInstanceOf(PdfService);
+   });
+
+   it("should load each dynamic module configuration separately", async () => {
+      @Module({})
+      class StorageModule {
+         static forRoot(bucket: string): DynamicModule {
+            return {
+               module: StorageModule,
+               providers: [{ provide: "BUCKET", useValue: bucket }],
+            };
+         }
+      }
+
+      const { lazyModuleLoader } = await bootstrap();
+      const avatars = StorageModule.forRoot("avatars");
+      const first = await lazyModuleLoader.load(() => avatars);
+      const second = await lazyModuleLoader.load(() =>
+         StorageModule.forRoot("invoices")
+      );
+
+      expect(second).not.toBe(first);
+      expect(first.get("BUCKET")).toBe("avatars");
+      expect(second.get("BUCKET")).toBe("invoices");
+      expect(await lazyModuleLoader.load(() => avatars)).toBe(first);
+   });
+
+   it("should reject values that do not contain a module", async () => {
+      const { lazyModuleLoader } = await bootstrap();
+
+      await expect(
+         lazyModuleLoader.load(async () => ({ REPORTS_FORMAT: "pdf" }))
+      ).rejects.toThrow(InvalidLazyModuleException);
+   });
+});
@@ -0,0 +1,86 @@
+import "reflect-metadata";
+import { createContainer } from "../utils/test-container";
+import { Module } from "@/packages/common/decorators/modules";
+import { Injectable } from "@/packages/common/decorators/core/injectable.decorator";
+import { Scope } from "@/packages/common/interfaces/scope-options.interface";
+import { ModuleRef } from "../../modules/module-ref";
+import {
+   InvalidClassScopeException,
+   UnknownElementException,
+} from "../../errors/exceptions";
+import { createContextId } from "../../helpers/context-id-factory";
+
+describe("ModuleRef", () => {
+   @Injectable()
+   class MailStrategy {}
+
+   @Injectable()
+   class SmsStrategy {}
+
+   @Injectable({ scope: Scope.REQUEST })
+   class RequestStrategy {}
+
+   @Module({
+      providers: [SmsStrategy],
+      exports: [SmsStrategy],
+   })
+   class SmsModule {}
+
+   @Injectable()
+   class NotificationService {
+      constructor(readonly moduleRef: ModuleRef) {}
+   }
+
+   @Module({
+      imports: [SmsModule],
+      providers: [MailStrategy, RequestStrategy, NotificationService],
+   })
+   class NotificationModule {}
+
+   const bootstrap = async () => {
+      const { moduleRegistry, providerCollector } = createContainer();
+      await moduleRegistry.registerModule(NotificationModule);
+      return providerCollector.getProvider(
+         NotificationService,
+         NotificationModule
+      ).moduleRef as ModuleRef;
+   };
+
+   it("should get providers of its own module in strict mode", async () => {
+      const moduleRef = await bootstrap();
+
+      expect(moduleRef.get(MailStrategy)).toBeInstanceOf(MailStrategy);
+      expect(() => moduleRef.get(SmsStrategy)).toThrow(
+         UnknownElementException
+      );
+      expect(moduleRef.get(SmsStrategy, { strict: false })).toBeInstanceOf(
+         SmsStrategy
+      );
+   });
+
+   it("should resolve scoped providers per context", async () => {
+      const moduleRef = await bootstrap();
+      const contextId = createContextId();
+
+      expect(() => moduleRef.get(RequestStrategy)).toThrow(
+         InvalidClassScopeException
+      );
+      const first = await moduleRef.resolve(RequestStrategy, contextId);
+      expect(first).toBeInstanceOf(RequestStrategy);
+      expect(await moduleRef.resolve(RequestStrategy, contextId)).toBe(first);
+      expect(await moduleRef.resolve(RequestStrategy)).not.toBe(first);
+   });
+
+   it("should create unregistered classes with their dependencies", async () => {
+      @Injectable()
+      class MailSender {
+         constructor(readonly strategy: MailStrategy) {}
+      }
+
+      const moduleRef = await bootstrap();
+      const sender = await moduleRef.create(MailSender);
+
+      expect(sender).toBeInstanceOf(MailSender);
+      expect(sender.strategy).toBe(moduleRef.get(MailStrategy));
+   });
+});
@@ -0,0 +1,420 @@
+import "reflect-metadata";
+import { createContainer } from "../utils/test-container";
+import { Global, Module } from "@/packages/common/decorators/modules";
+import { Inject } from "@/packages/common/decorators/core/inject.decorator";
+import { Injectable } from "@/packages/common/decorators/core/injectable.decorator";
+import { forwardRef } from "@/packages/common/utils/forward-ref.util";
+import { ConditionalModule } from "@/packages/common/module-utils/conditional.module";
+import { ModuleRegistry } from "../../modules/module-registry";
+import { Logger } from "../../logger-server";
+import { MODULE_METADATA } from "@/packages/common/constants";
+import {
+   CircularModuleImportException,
+   ProviderNotVisibleException,
+   UnknownExportException,
+} from "../../errors/exceptions";
+
+describe("ModuleRegistry", () => {
+   describe("provider visibility", () => {
+      @Injectable()
+      class SharedService {}
+
+      @Injectable()
+      class PrivateService {}
+
+      @Module({
+         providers: [SharedService, PrivateService],
+         exports: [SharedService],
+      })
+      class SharedModule {}
+
+      it("should resolve providers exported by an imported module", async () => {
+         @Injectable()
+         class ConsumerService {
+            constructor(readonly shared: SharedService) {}
+         }
+
+         @Module({ imports: [SharedModule], providers: [ConsumerService] })
+         class ConsumerModule {}
+
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(ConsumerModule);
+
+         const consumer = providerCollector.getProvider(
+            ConsumerService,
+            ConsumerModule
+         );
+         expect(consumer.shared).toBe(
+            providerCollector.getProvider(SharedService, SharedModule)
+         );
+      });
+
+      it("should reject providers that are not exported", async () => {
+         @Injectable()
+         class ConsumerService {
+            constructor(readonly hidden: PrivateService) {}
+         }
+
+         @Module({ imports: [SharedModule], providers: [ConsumerService] })
+         class ConsumerModule {}
+
+         const { moduleRegistry } = createContainer();
+         await expect(
+            moduleRegistry.registerModule(ConsumerModule)
+         ).rejects.toThrow(ProviderNotVisibleException);
+      });
+
+      it("should reject providers of modules that are not imported", async () => {
+         @Injectable()
+         class ConsumerService {
+            constructor(readonly shared: SharedService) {}
+         }
+
+         @Module({ providers: [ConsumerService] })
+         class ConsumerModule {}
+
+         @Module({ imports: [SharedModule, ConsumerModule] })
+         class RootModule {}
+
+         const { moduleRegistry } = createContainer();
+         await expect(moduleRegistry.registerModule(RootModule)).rejects.toThrow(
+            /not visible in the ConsumerModule context/
+         );
+      });
+
+      it("should expose the exports of @Global modules everywhere", async () => {
+         @Injectable()
+         class ConfigService {}
+
+         @Global()
+         @Module({ providers: [ConfigService], exports: [ConfigService] })
+         class ConfigModule {}
+
+         @Injectable()
+         class ConsumerService {
+            constructor(readonly config: ConfigService) {}
+         }
+
+         @Module({ providers: [ConsumerService] })
+         class ConsumerModule {}
+
+         @Module({ imports: [ConfigModule, ConsumerModule] })
+         class RootModule {}
+
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(RootModule);
+
+         expect(
+            providerCollector.getProvider(ConsumerService, ConsumerModule).config
+         ).toBeInstanceOf(ConfigService);
+      });
+
+      it("should expose the exports of dynamic modules marked global", async () => {
+         @Injectable()
+         class CacheService {}
+
+         @Module({})
+         class CacheModule {}
+
+         @Injectable()
+         class ConsumerService {
+            constructor(readonly cache: CacheService) {}
+         }
+
+         @Module({ providers: [ConsumerService] })
+         class ConsumerModule {}
+
+         @Module({
+            imports: [
+               {
+                  module: CacheModule,
+                  global: true,
+                  providers: [CacheService],
+                  exports: [CacheService],
+               },
+               ConsumerModule,
+            ],
+         })
+         class RootModule {}
+
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(RootModule);
+
+         expect(
+            providerCollector.getProvider(ConsumerService, ConsumerModule).cache
+         ).toBeInstanceOf(CacheService);
+         expect(moduleRegistry.getGlobalProviders().has(CacheService)).toBe(
+            true
+         );
+      });
+
+      it("should forward the exports of re-exported modules transitively", async () => {
+         @Injectable()
+         class DatabaseService {}
+
+         @Injectable()
+         class MigrationService {}
+
+         @Module({})
+         class DatabaseModule {}
+
+         @Module({
+            imports: [
+               {
+                  module: DatabaseModule,
+                  providers: [DatabaseService, MigrationService],
+                  exports: [DatabaseService],
+               },
+            ],
+            exports: [DatabaseModule],
+         })
+         class CoreModule {}
+
+         @Module({ imports: [CoreModule], exports: [CoreModule] })
+         class SharedModule {}
+
+         @Injectable()
+         class UsersService {
+            constructor(readonly database: DatabaseService) {}
+         }
+
+         @Module({ imports: [SharedModule], providers: [UsersService] })
+         class UsersModule {}
+
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(UsersModule);
+
+         expect(
+            providerCollector.getProvider(UsersService, UsersModule).database
+         ).toBe(providerCollector.getProvider(DatabaseService, DatabaseModule));
+         expect(moduleRegistry.getHostModule(DatabaseService, UsersModule)).toBe(
+            DatabaseModule
+         );
+         expect(
+            moduleRegistry.getHostModule(MigrationService, UsersModule)
+         ).toBeUndefined();
+      });
+
+      it("should keep same-token providers isolated per module", async () => {
+         @Module({
+            providers: [{ provide: "NAME", useValue: "first" }],
+            exports: ["NAME"],
+         })
+         class FirstModule {}
+
+         @Injectable()
+         class NameService {
+            constructor(@Inject("NAME") readonly name: string) {}
+         }
+
+         @Module({
+            imports: [FirstModule],
+            providers: [{ provide: "NAME", useValue: "second" }, NameService],
+         })
+         class SecondModule {}
+
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(SecondModule);
+
+         expect(providerCollector.getProvider("NAME", FirstModule)).toBe(
+            "first"
+         );
+         expect(
+            providerCollector.getProvider(NameService, SecondModule).name
+         ).toBe("second");
+      });
+
+      it("should register each dynamic module of the same class separately", async () => {
+         @Injectable()
+         class RepositoryService {
+            constructor(@Inject("ENTITY") readonly entity: string) {}
+         }
+
+         @Module({ providers: [RepositoryService], exports: [RepositoryService] })
+         class FeatureModule {
+            static forFeature(entity: string) {
+               return {
+                  module: FeatureModule,
+                  providers: [{ provide: "ENTITY", useValue: entity }],
+               };
+            }
+         }
+
+         @Injectable()
+         class UsersService {
+            constructor(readonly repository: RepositoryService) {}
+         }
+
+         @Module({
+            imports: [FeatureModule.forFeature("User")],
+            providers: [UsersService],
+         })
+         class UsersModule {}
+
+         @Injectable()
+         class PostsService {
+            constructor(readonly repository: RepositoryService) {}
+         }
+
+         @Module({
+            imports: [FeatureModule.forFeature("Post")],
+            providers: [PostsService],
+         })
+         class PostsModule {}
+
+         @Module({ imports: [UsersModule, PostsModule] })
+         class AppModule {}
+
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(AppModule);
+
+         const users = providerCollector.getProvider(UsersService, UsersModule);
+         const posts = providerCollector.getProvider(PostsService, PostsModule);
+         expect(users.repository.entity).toBe("User");
+         expect(posts.repository.entity).toBe("Post");
+         const [postsFeature] = moduleRegistry.getModuleImports(PostsModule);
+         expect(postsFeature).not.toBe(FeatureModule);
+         expect(moduleRegistry.getModuleClass(postsFeature)).toBe(FeatureModule);
+      });
+
+      it("should reject exports that are not part of the module", async () => {
+         @Module({ exports: [SharedService] })
+         class InvalidModule {}
+
+         const { moduleRegistry } = createContainer();
+         await expect(
+            moduleRegistry.registerModule(InvalidModule)
+         ).rejects.toThrow(UnknownExportException);
+      });
+   });
+
+   describe("forward references", () => {
+      it("should resolve providers across circular module imports", async () => {
+         @Injectable()
+         class CatsService {
+            constructor(
+               @Inject(forwardRef(() => DogsService)) readonly dogs: any
+            ) {}
+         }
+
+         @Module({
+            imports: [forwardRef(() => DogsModule)],
+            providers: [CatsService],
+            exports: [CatsService],
+         })
+         class CatsModule {}
+
+         @Injectable()
+         class DogsService {
+            constructor(
+               @Inject(forwardRef(() => CatsService)) readonly cats: any
+            ) {}
+         }
+
+         @Module({
+            imports: [forwardRef(() => CatsModule)],
+            providers: [DogsService],
+            exports: [DogsService],
+         })
+         class DogsModule {}
+
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(CatsModule);
+
+         const cats = providerCollector.getProvider(CatsService, CatsModule);
+         const dogs = providerCollector.getProvider(DogsService, DogsModule);
+         expect(cats).toBeInstanceOf(CatsService);
+         expect(dogs).toBeInstanceOf(DogsService);
+         expect(cats.dogs).toBe(dogs);
+         expect(dogs.cats).toBe(cats);
+      });
+
+      it("should reject circular imports without forwardRef", async () => {
+         @Module({})
+         class CatsModule {}
+
+         @Module({ imports: [CatsModule] })
+         class DogsModule {}
+
+         @Module({ imports: [DogsModule] })
+         class BirdsModule {}
+
+         Reflect.defineMetadata(
+            MODULE_METADATA.IMPORTS,
+            [BirdsModule],
+            CatsModule
+         );
+
+         const { moduleRegistry } = createContainer();
+         const registration = moduleRegistry.registerModule(CatsModule);
+
+         await expect(registration).rejects.toThrow(
+            CircularModuleImportException
+         );
+         await expect(registration).rejects.toThrow(
+            "CatsModule -> BirdsModule -> DogsModule -> CatsModule"
+         );
+      });
+   });
+
+   describe("conditional imports", () => {
+      @Injectable()
+      class MailCatcher {}
+
+      @Module({ providers: [MailCatcher], exports: [MailCatcher] })
+      class MailCatcherModule {}
+
+      afterEach(() => {
+         delete process.env.MAIL_CATCHER;
+      });
+
+      it("should import the module when the environment variable is set", async () => {
+         process.env.MAIL_CATCHER = "true";
+
+         @Module({
+            imports: [
+               ConditionalModule.registerWhen(MailCatcherModule, "MAIL_CATCHER"),
+            ],
+         })
+         class AppModule {}
+
+         const { moduleRegistry } = createContainer();
+         await moduleRegistry.registerModule(AppModule);
+
+         expect(moduleRegistry.getModuleImports(AppModule)).toEqual([
+            MailCatcherModule,
+         ]);
+      });
+
+      it("should skip the module and log when the condition fails", async () => {
+         process.env.MAIL_CATCHER = "false";
+
+         @Module({
+            imports: [
+               ConditionalModule.registerWhen(MailCatcherModule, "MAIL_CATCHER"),
+               ConditionalModule.registerWhen(
+                  forwardRef(() => MailCatcherModule),
+                  function isProduction(env) {
+                     return env.NODE_ENV === "production";
+                  }
+               ),
+            ],
+         })
+         class AppModule {}
+
+         const logger = new Logger();
+         const { moduleRegistry } = createContainer(logger);
+         await moduleRegistry.registerModule(AppModule);
+
+         expect(moduleRegistry.getModules()).toEqual([AppModule]);
+         expect(logger.log).toHaveBeenCalledWith(
+            'MailCatcherModule skipped in AppModule: environment variable "MAIL_CATCHER" is not set or is "false"',
+            "ModuleRegistry"
+         );
+         expect(logger.log).toHaveBeenCalledWith(
+            "MailCatcherModule skipped in AppModule: condition isProduction returned false",
+            "ModuleRegistry"
+         );
+      });
+   });
+});
@@ -0,0 +1,173 @@
+import "reflect-metadata";
+import { createContainer } from "../utils/test-container";
+import { Module } from "@/packages/common/decorators/modules";
+import { Inject } from "@/packages/common/decorators/core/inject.decorator";
+import { Injectable } from "@/packages/common/decorators/core/injectable.decorator";
+import { inject } from "../../providers/inject";
+import {
+   AsyncProviderInjectionException,
+   InjectionContextException,
+   UnknownDependenciesException,
+} from "../../errors/exceptions";
+
+describe("inject()", () => {
+   it("should inject dependencies in field initializers and constructors", async () => {
+      @Injectable()
+      class ConfigService {
+         readonly prefix = "app";
+      }
+
+      @Module({ providers: [ConfigService], exports: [ConfigService] })
+      class ConfigModule {}
+
+      @Injectable()
+      class ReportsService {
+         private readonly config = inject(ConfigService);
+         readonly cache = inject("CACHE", { optional: true });
+         readonly prefix: string;
+
+         constructor() {
+            this.prefix = `${this.config.prefix}:${inject<number>("TTL")}`;
+         }
+      }
+
+      @Module({
+         imports: [ConfigModule],
+         providers: [ReportsService, { provide: "TTL", useValue: 60 }],
+      })
+      class ReportsModule {}
+
+      const { moduleRegistry, providerCollector } = createContainer();
+      await moduleRegistry.registerModule(ReportsModule);
+
+      const reports = providerCollector.getProvider(
+         ReportsService,
+         ReportsModule
+      );
+      expect(reports.prefix).toBe("app:60");
+      expect(reports.cache).toBeUndefined();
+   });
+
+   it("should inject dependencies into factories", async () => {
+      const createUrl = (path: string) => `${inject("BASE_URL")}${path}`;
+
+      @Module({
+         providers: [
+            { provide: "BASE_URL", useValue: "https://api" },
+            { provide: "USERS_URL", useFactory: () => createUrl("/users") },
+            {
+               provide: "ORDERS_URL",
+               useFactory: async () => {
+                  const url = createUrl("/orders");
+                  return `${url}?v=${await Promise.resolve(2)}`;
+               },
+            },
+         ],
+      })
+      class ApiModule {}
+
+      const { moduleRegistry, providerCollector } = createContainer();
+      await moduleRegistry.registerModule(ApiModule);
+
+      expect(providerCollector.getProvider("USERS_URL", ApiModule)).toBe(
+         "https://api/users"
+      );
+      expect(providerCollector.getProvider("ORDERS_URL", ApiModule)).toBe(
+         "https://api/orders?v=2"
+      );
+   });
+
+   it("should create providers registered after their consumer on demand", async () => {
+      const calls: string[] = [];
+
+      @Injectable()
+      class Database {
+         constructor(@Inject("DSN") readonly dsn: string) {
+            calls.push("Database");
+         }
+      }
+
+      @Injectable()
+      class UsersRepository {
+         constructor(readonly database: Database) {
+            calls.push("UsersRepository");
+         }
+      }
+
+      @Injectable()
+      class UsersService {
+         readonly repository = inject(UsersRepository);
+         readonly timeout = inject<number>("TIMEOUT");
+
+         constructor() {
+            calls.push("UsersService");
+         }
+      }
+
+      @Module({
+         providers: [
+            UsersService,
+            UsersRepository,
+            Database,
+            { provide: "DSN", useValue: "postgres://users" },
+            { provide: "TIMEOUT", useFactory: () => inject("DSN").length },
+         ],
+      })
+      class UsersModule {}
+
+      const { moduleRegistry, providerCollector } = createContainer();
+      await moduleRegistry.registerModule(UsersModule);
+
+      const users = providerCollector.getProvider(UsersService, UsersModule);
+      expect(users.repository).toBe(
+         providerCollector.getProvider(UsersRepository, UsersModule)
+      );
+      expect(users.repository.database).toBe(
+         providerCollector.getProvider(Database, UsersModule)
+      );
+      expect(users.repository.database.dsn).toBe("postgres://users");
+      expect(users.timeout).toBe(16);
+      expect(calls).toEqual(["Database", "UsersRepository", "UsersService"]);
+   });
+
+   it("should reject async factories that inject() cannot wait for", async () => {
+      const connect = jest.fn(async () => ({ connected: true }));
+
+      @Injectable()
+      class MailService {
+         readonly connection = inject("CONNECTION");
+      }
+
+      @Module({
+         providers: [
+            MailService,
+            { provide: "CONNECTION", useFactory: connect },
+         ],
+      })
+      class MailModule {}
+
+      const { moduleRegistry } = createContainer();
+
+      await expect(moduleRegistry.registerModule(MailModule)).rejects.toThrow(
+         AsyncProviderInjectionException
+      );
+      expect(connect).toHaveBeenCalledTimes(1);
+   });
+
+   it("should reject unknown tokens and calls outside an injection context", async () => {
+      @Injectable()
+      class MailService {
+         readonly transport = inject("TRANSPORT");
+      }
+
+      @Module({ providers: [MailService] })
+      class MailModule {}
+
+      const { moduleRegistry } = createContainer();
+
+      await expect(moduleRegistry.registerModule(MailModule)).rejects.toThrow(
+         UnknownDependenciesException
+      );
+      expect(() => inject("TRANSPORT")).toThrow(InjectionContextException);
+   });
+});
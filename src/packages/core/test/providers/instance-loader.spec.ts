@@ -0,0 +1,86 @@
+import "reflect-metadata";
+import { createContainer } from "../utils/test-container";
+import { Module } from "@/packages/common/decorators/modules";
+import { Inject } from "@/packages/common/decorators/core/inject.decorator";
+import { Injectable } from "@/packages/common/decorators/core/injectable.decorator";
+
+describe("InstanceLoader", () => {
+   it("should start independent async factories in parallel", async () => {
+      const started: string[] = [];
+      const release: Array<() => void> = [];
+      const createFactory = (name: string) => () => {
+         started.push(name);
+         return new Promise<string>((resolve) =>
+            release.push(() => resolve(name))
+         );
+      };
+
+      @Injectable()
+      class ReportService {
+         constructor(
+            @Inject("DATABASE") readonly database: string,
+            @Inject("CACHE") readonly cache: string
+         ) {}
+      }
+
+      @Module({
+         providers: [
+            ReportService,
+            { provide: "DATABASE", useFactory: createFactory("DATABASE") },
+            { provide: "CACHE", useFactory: createFactory("CACHE") },
+         ],
+      })
+      class AppModule {}
+
+      const { moduleRegistry, providerCollector } = createContainer();
+      const registration = moduleRegistry.registerModule(AppModule);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(started).toEqual(["DATABASE", "CACHE"]);
+      release.forEach((resolve) => resolve());
+      await registration;
+
+      const report = providerCollector.getProvider(ReportService, AppModule);
+      expect(report.database).toBe("DATABASE");
+      expect(report.cache).toBe("CACHE");
+   });
+
+   it("should create every provider once, dependencies first", async () => {
+      const created: string[] = [];
+
+      @Injectable()
+      class ConfigService {
+         constructor() {
+            created.push("ConfigService");
+         }
+      }
+
+      @Injectable()
+      class UsersService {
+         constructor(readonly config: ConfigService) {
+            created.push("UsersService");
+         }
+      }
+
+      @Module({
+         providers: [UsersService, ConfigService],
+         exports: [UsersService, ConfigService],
+      })
+      class SharedModule {}
+
+      @Module({ imports: [SharedModule] })
+      class FeatureModule {}
+
+      @Module({ imports: [SharedModule, FeatureModule] })
+      class AppModule {}
+
+      const { moduleRegistry, providerCollector } = createContainer();
+      await moduleRegistry.registerModule(AppModule);
+
+      expect(created).toEqual(["ConfigService", "UsersService"]);
+      const users = providerCollector.getProvider(UsersService, SharedModule);
+      expect(users.config).toBe(
+         providerCollector.getProvider(ConfigService, SharedModule)
+      );
+   });
+});
@@ -0,0 +1,809 @@
+import "reflect-metadata";
+import { createContainer } from "../utils/test-container";
+import { Module } from "@/packages/common/decorators/modules";
+import { Inject } from "@/packages/common/decorators/core/inject.decorator";
+import { Injectable } from "@/packages/common/decorators/core/injectable.decorator";
+import { Optional } from "@/packages/common/decorators/core/optional.decorator";
+import { Scope } from "@/packages/common/interfaces/scope-options.interface";
+import { InjectionToken } from "@/packages/common/injection-token";
+import { ValueProvider } from "@/packages/common/interfaces/modules/provider.interface";
+import {
+   CircularDependencyException,
+   MixedMultiProviderException,
+   ProviderInitializationException,
+   ProviderNotVisibleException,
+   RequestScopedDependencyException,
+   UndecoratedProviderException,
+   UnknownDependenciesException,
+} from "../../errors/exceptions";
+import { ProviderCollector } from "../../providers/provider-collector";
+import { APP_FILTER, INQUIRER, REQUEST } from "../../constants";
+import {
+   ContextId,
+   ContextIdFactory,
+   createContextId,
+} from "../../helpers/context-id-factory";
+
+describe("ProviderCollector", () => {
+   describe("request scope", () => {
+      @Injectable({ scope: Scope.REQUEST })
+      class RequestService {
+         constructor(@Inject(REQUEST) readonly request: any) {}
+      }
+
+      @Injectable()
+      class ConsumerService {
+         constructor(readonly requestService: RequestService) {}
+      }
+
+      @Injectable()
+      class StaticService {}
+
+      @Module({ providers: [RequestService, ConsumerService, StaticService] })
+      class AppModule {}
+
+      it("should not instantiate request-scoped trees during bootstrap", async () => {
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(AppModule);
+
+         expect(providerCollector.hasProvider(RequestService, AppModule)).toBe(
+            false
+         );
+         expect(providerCollector.hasProvider(ConsumerService, AppModule)).toBe(
+            false
+         );
+         expect(
+            providerCollector.getProvider(StaticService, AppModule)
+         ).toBeInstanceOf(StaticService);
+      });
+
+      it("should bubble the request scope up to dependent providers", async () => {
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(AppModule);
+
+         expect(
+            providerCollector.isDependencyTreeStatic(ConsumerService, AppModule)
+         ).toBe(false);
+         expect(
+            providerCollector.isDependencyTreeStatic(StaticService, AppModule)
+         ).toBe(true);
+      });
+
+      it("should create one instance per context and inject the request", async () => {
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(AppModule);
+
+         const firstRequest = { url: "/first" };
+         const firstContextId = createContextId();
+         providerCollector.registerRequestByContextId(
+            firstRequest,
+            firstContextId
+         );
+         const secondContextId = createContextId();
+         providerCollector.registerRequestByContextId(
+            { url: "/second" },
+            secondContextId
+         );
+
+         const first = await providerCollector.resolvePerContext(
+            ConsumerService,
+            AppModule,
+            firstContextId
+         );
+         const second = await providerCollector.resolvePerContext(
+            ConsumerService,
+            AppModule,
+            secondContextId
+         );
+
+         expect(first).not.toBe(second);
+         expect(first.requestService.request).toBe(firstRequest);
+         expect(
+            await providerCollector.resolvePerContext(
+               ConsumerService,
+               AppModule,
+               firstContextId
+            )
+         ).toBe(first);
+         expect(
+            providerCollector.getProvider(
+               RequestService,
+               AppModule,
+               firstContextId
+            )
+         ).toBe(first.requestService);
+      });
+
+      it("should name the request-scoped dependency outside a request context", async () => {
+         @Injectable()
+         class AuditMiddleware {
+            constructor(readonly consumer: ConsumerService) {}
+         }
+
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(AppModule);
+
+         const instantiation = providerCollector.instantiateClass(
+            AuditMiddleware,
+            AppModule
+         );
+         await expect(instantiation).rejects.toThrow(
+            RequestScopedDependencyException
+         );
+         await expect(instantiation).rejects.toThrow(
+            /"ConsumerService" required by AuditMiddleware in the AppModule context: it depends on the request-scoped provider "RequestService" \(through "ConsumerService"\)/
+         );
+      });
+   });
+
+   describe("transient scope", () => {
+      @Injectable({ scope: Scope.TRANSIENT })
+      class ContextLogger {
+         constructor(@Inject(INQUIRER) readonly inquirer: any) {}
+      }
+
+      @Injectable()
+      class CatsService {
+         constructor(readonly logger: ContextLogger) {}
+      }
+
+      @Injectable()
+      class DogsService {
+         constructor(
+            readonly logger: ContextLogger,
+            readonly cats: CatsService
+         ) {}
+      }
+
+      @Module({ providers: [ContextLogger, CatsService, DogsService] })
+      class AppModule {}
+
+      it("should create a fresh instance for every consumer", async () => {
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(AppModule);
+
+         const cats = providerCollector.getProvider(CatsService, AppModule);
+         const dogs = providerCollector.getProvider(DogsService, AppModule);
+
+         expect(cats.logger).toBeInstanceOf(ContextLogger);
+         expect(dogs.logger).toBeInstanceOf(ContextLogger);
+         expect(cats.logger).not.toBe(dogs.logger);
+         expect(dogs.cats).toBe(cats);
+      });
+
+      it("should inject the consumer class as INQUIRER", async () => {
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(AppModule);
+
+         expect(
+            providerCollector.getProvider(CatsService, AppModule).logger.inquirer
+         ).toBe(CatsService);
+         expect(
+            providerCollector.getProvider(DogsService, AppModule).logger.inquirer
+         ).toBe(DogsService);
+      });
+   });
+
+   describe("durable providers", () => {
+      @Injectable({ scope: Scope.REQUEST, durable: true })
+      class TenantConnection {
+         constructor(@Inject(REQUEST) readonly payload: any) {}
+      }
+
+      @Injectable({ scope: Scope.REQUEST })
+      class RequestLogger {}
+
+      @Injectable()
+      class TenantService {
+         constructor(readonly connection: TenantConnection) {}
+      }
+
+      @Injectable()
+      class ReportService {
+         constructor(
+            readonly connection: TenantConnection,
+            readonly logger: RequestLogger
+         ) {}
+      }
+
+      @Module({
+         providers: [
+            TenantConnection,
+            RequestLogger,
+            TenantService,
+            ReportService,
+         ],
+      })
+      class AppModule {}
+
+      const tenants = new Map<string, ContextId>();
+
+      beforeAll(() => {
+         ContextIdFactory.apply({
+            attach(contextId, request) {
+               const tenantId = request.headers["x-tenant-id"];
+               if (!tenants.has(tenantId)) {
+                  tenants.set(tenantId, ContextIdFactory.create());
+               }
+               const tenantContextId = tenants.get(tenantId);
+               return {
+                  resolve: (info) =>
+                     info.isTreeDurable ? tenantContextId : contextId,
+                  payload: { tenantId },
+               };
+            },
+         });
+      });
+
+      afterAll(() => {
+         ContextIdFactory.apply({ attach: () => undefined });
+      });
+
+      const createRequest = (tenantId: string) => ({
+         headers: { "x-tenant-id": tenantId },
+      });
+
+      const resolve = (
+         providerCollector: ProviderCollector,
+         provider: any,
+         request: any
+      ) => {
+         const contextId = ContextIdFactory.getByRequest(request);
+         providerCollector.registerRequestByContextId(request, contextId);
+         return providerCollector.resolvePerContext(
+            provider,
+            AppModule,
+            contextId
+         );
+      };
+
+      it("should share durable trees between requests of the same tenant", async () => {
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(AppModule);
+
+         const first = await resolve(
+            providerCollector,
+            TenantService,
+            createRequest("a")
+         );
+         const second = await resolve(
+            providerCollector,
+            TenantService,
+            createRequest("a")
+         );
+         const other = await resolve(
+            providerCollector,
+            TenantService,
+            createRequest("b")
+         );
+
+         expect(
+            providerCollector.isDependencyTreeDurable(TenantService, AppModule)
+         ).toBe(true);
+         expect(second).toBe(first);
+         expect(other).not.toBe(first);
+         expect(first.connection.payload).toEqual({ tenantId: "a" });
+      });
+
+      it("should keep trees with non-durable request providers per request", async () => {
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(AppModule);
+
+         const first = await resolve(
+            providerCollector,
+            ReportService,
+            createRequest("a")
+         );
+         const second = await resolve(
+            providerCollector,
+            ReportService,
+            createRequest("a")
+         );
+
+         expect(
+            providerCollector.isDependencyTreeDurable(ReportService, AppModule)
+         ).toBe(false);
+         expect(second).not.toBe(first);
+         expect(second.logger).not.toBe(first.logger);
+         expect(second.connection).toBe(first.connection);
+      });
+   });
+
+   describe("property injection", () => {
+      @Injectable()
+      class ConfigService {}
+
+      @Injectable()
+      class LoggerService {}
+
+      abstract class BaseService {
+         @Inject()
+         readonly config: ConfigService;
+      }
+
+      @Injectable()
+      class UsersService extends BaseService {
+         @Inject(LoggerService)
+         readonly logger: LoggerService;
+
+         @Inject("PREFIX")
+         readonly prefix: string;
+      }
+
+      @Module({
+         providers: [
+            ConfigService,
+            LoggerService,
+            UsersService,
+            { provide: "PREFIX", useValue: "users" },
+         ],
+      })
+      class AppModule {}
+
+      it("should inject own and inherited properties", async () => {
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(AppModule);
+
+         const users = providerCollector.getProvider(UsersService, AppModule);
+         expect(users.config).toBe(
+            providerCollector.getProvider(ConfigService, AppModule)
+         );
+         expect(users.logger).toBe(
+            providerCollector.getProvider(LoggerService, AppModule)
+         );
+         expect(users.prefix).toBe("users");
+      });
+
+      it("should inject properties of classes built outside the container", async () => {
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(AppModule);
+
+         class AuditMiddleware extends BaseService {}
+
+         const middleware = await providerCollector.instantiateClass(
+            AuditMiddleware,
+            AppModule
+         );
+         expect(middleware.config).toBeInstanceOf(ConfigService);
+      });
+   });
+
+   describe("async factories", () => {
+      it("should await async factories before building their consumers", async () => {
+         @Injectable()
+         class DbService {
+            constructor(
+               @Inject("CONNECTION") readonly connection: { ready: boolean }
+            ) {}
+         }
+
+         @Module({
+            providers: [
+               DbService,
+               {
+                  provide: "CONNECTION",
+                  useFactory: async (url: string) => {
+                     await new Promise((resolve) => setTimeout(resolve, 5));
+                     return { ready: url === "db://local" };
+                  },
+                  inject: ["URL"],
+               },
+               { provide: "URL", useValue: "db://local" },
+            ],
+         })
+         class AppModule {}
+
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(AppModule);
+
+         expect(
+            providerCollector.getProvider(DbService, AppModule).connection
+         ).toEqual({ ready: true });
+      });
+
+      it("should abort with the token and the dependency chain", async () => {
+         @Injectable()
+         class DbService {
+            constructor(@Inject("CONNECTION") readonly connection: any) {}
+         }
+
+         @Injectable()
+         class UsersService {
+            constructor(readonly db: DbService) {}
+         }
+
+         @Module({
+            providers: [
+               UsersService,
+               DbService,
+               {
+                  provide: "CONNECTION",
+                  useFactory: async () => {
+                     throw new Error("ECONNREFUSED");
+                  },
+               },
+            ],
+         })
+         class AppModule {}
+
+         const { moduleRegistry } = createContainer();
+         const registration = moduleRegistry.registerModule(AppModule);
+
+         await expect(registration).rejects.toThrow(
+            ProviderInitializationException
+         );
+         await expect(registration).rejects.toThrow(
+            /"CONNECTION": ECONNREFUSED\nDependency chain: UsersService -> DbService -> CONNECTION/
+         );
+      });
+   });
+
+   describe("factory dependencies", () => {
+      it("should inject undefined for missing optional dependencies", async () => {
+         @Module({
+            providers: [
+               { provide: "PREFIX", useValue: "app" },
+               {
+                  provide: "OPTIONS",
+                  useFactory: (prefix: string, suffix?: string) => ({
+                     prefix,
+                     suffix,
+                  }),
+                  inject: ["PREFIX", { token: "SUFFIX", optional: true }],
+               },
+            ],
+         })
+         class AppModule {}
+
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(AppModule);
+
+         expect(providerCollector.getProvider("OPTIONS", AppModule)).toEqual({
+            prefix: "app",
+            suffix: undefined,
+         });
+      });
+
+      it("should reject missing required dependencies", async () => {
+         @Module({
+            providers: [
+               { provide: "PREFIX", useValue: "app" },
+               {
+                  provide: "OPTIONS",
+                  useFactory: (prefix: string, suffix: string) => ({
+                     prefix,
+                     suffix,
+                  }),
+                  inject: ["PREFIX", { token: "SUFFIX", optional: false }],
+               },
+            ],
+         })
+         class AppModule {}
+
+         const { moduleRegistry } = createContainer();
+         const registration = moduleRegistry.registerModule(AppModule);
+
+         await expect(registration).rejects.toThrow(
+            UnknownDependenciesException
+         );
+         await expect(registration).rejects.toThrow(
+            "Nest can't resolve dependencies of the OPTIONS (PREFIX, ?). " +
+               "Please make sure that the argument SUFFIX at index [1] is available in the AppModule context."
+         );
+      });
+   });
+
+   describe("strict resolution", () => {
+      @Injectable()
+      class LoggerService {}
+
+      class MissingService {}
+
+      @Injectable()
+      class ConfigService {}
+
+      it("should name the class, the missing argument and the module", async () => {
+         @Injectable()
+         class UsersService {
+            constructor(
+               readonly logger: LoggerService,
+               readonly missing: MissingService,
+               readonly config: ConfigService
+            ) {}
+         }
+
+         @Module({ providers: [LoggerService, ConfigService, UsersService] })
+         class UsersModule {}
+
+         const { moduleRegistry } = createContainer();
+         const registration = moduleRegistry.registerModule(UsersModule);
+
+         await expect(registration).rejects.toThrow(
+            "Nest can't resolve dependencies of the UsersService (LoggerService, ?, ConfigService). " +
+               "Please make sure that the argument MissingService at index [1] is available in the UsersModule context."
+         );
+      });
+
+      it("should inject undefined for @Optional() arguments and properties", async () => {
+         @Injectable()
+         class UsersService {
+            @Optional()
+            @Inject("CACHE")
+            readonly cache = "memory";
+
+            constructor(@Optional() readonly missing: MissingService) {}
+         }
+
+         @Module({ providers: [UsersService] })
+         class UsersModule {}
+
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(UsersModule);
+
+         const users = providerCollector.getProvider(UsersService, UsersModule);
+         expect(users.missing).toBeUndefined();
+         expect(users.cache).toBe("memory");
+      });
+
+      it("should reject class providers without @Injectable()", async () => {
+         @Module({ providers: [MissingService] })
+         class UsersModule {}
+
+         const { moduleRegistry } = createContainer();
+
+         await expect(moduleRegistry.registerModule(UsersModule)).rejects.toThrow(
+            UndecoratedProviderException
+         );
+      });
+   });
+
+   describe("circular dependencies", () => {
+      it("should report the full cycle and the modules involved", async () => {
+         @Injectable()
+         class CatsService {
+            constructor(@Inject("DOGS") readonly dogs: any) {}
+         }
+
+         @Injectable()
+         class DogsService {
+            constructor(@Inject("BIRDS") readonly birds: any) {}
+         }
+
+         @Injectable()
+         class BirdsService {
+            constructor(@Inject("CATS") readonly cats: any) {}
+         }
+
+         @Module({
+            providers: [
+               { provide: "CATS", useClass: CatsService },
+               { provide: "DOGS", useClass: DogsService },
+               { provide: "BIRDS", useClass: BirdsService },
+            ],
+         })
+         class AnimalsModule {}
+
+         const { moduleRegistry } = createContainer();
+         const registration = moduleRegistry.registerModule(AnimalsModule);
+
+         await expect(registration).rejects.toThrow(
+            CircularDependencyException
+         );
+         await expect(registration).rejects.toThrow(
+            "A circular dependency between providers has been detected: CATS -> DOGS -> BIRDS -> CATS.\n" +
+               "Modules involved: AnimalsModule.\n" +
+               'Please make sure that each side of a bidirectional relationship is decorated with "forwardRef()"'
+         );
+      });
+   });
+
+   describe("multi providers", () => {
+      @Injectable()
+      class DatabaseIndicator {}
+
+      @Module({
+         providers: [
+            DatabaseIndicator,
+            {
+               provide: "INDICATORS",
+               useExisting: DatabaseIndicator,
+               multi: true,
+            },
+         ],
+         exports: ["INDICATORS"],
+      })
+      class DatabaseModule {}
+
+      @Module({
+         providers: [
+            { provide: "INDICATORS", useValue: "memory", multi: true },
+         ],
+         exports: ["INDICATORS"],
+      })
+      class MemoryModule {}
+
+      @Injectable()
+      class HealthService {
+         constructor(@Inject("INDICATORS") readonly indicators: any[]) {}
+      }
+
+      it("should inject every registration in module order", async () => {
+         @Module({
+            imports: [DatabaseModule, MemoryModule],
+            providers: [HealthService],
+         })
+         class HealthModule {}
+
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(HealthModule);
+
+         const database = providerCollector.getProvider(
+            DatabaseIndicator,
+            DatabaseModule
+         );
+         expect(
+            providerCollector.getProvider(HealthService, HealthModule).indicators
+         ).toEqual([database, "memory"]);
+         expect(providerCollector.getProvidersByToken("INDICATORS")).toEqual([
+            database,
+            "memory",
+         ]);
+      });
+
+      it("should only inject registrations exported to the module", async () => {
+         @Module({
+            providers: [{ provide: "INDICATORS", useValue: "disk", multi: true }],
+         })
+         class DiskModule {}
+
+         @Module({
+            imports: [MemoryModule, DiskModule],
+            providers: [HealthService],
+         })
+         class HealthModule {}
+
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(HealthModule);
+
+         expect(
+            providerCollector.getProvider(HealthService, HealthModule).indicators
+         ).toEqual(["memory"]);
+
+         @Module({ imports: [DiskModule], providers: [HealthService] })
+         class DiskHealthModule {}
+
+         await expect(
+            createContainer().moduleRegistry.registerModule(DiskHealthModule)
+         ).rejects.toThrow(ProviderNotVisibleException);
+      });
+
+      it("should aggregate APP_* enhancers registered by several modules", async () => {
+         @Module({
+            providers: [
+               { provide: APP_FILTER, useValue: "first" },
+               { provide: APP_FILTER, useValue: "second" },
+            ],
+         })
+         class FiltersModule {}
+
+         @Module({
+            imports: [FiltersModule],
+            providers: [{ provide: APP_FILTER, useValue: "third" }],
+         })
+         class AppModule {}
+
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(AppModule);
+
+         expect(providerCollector.getProvidersByToken(APP_FILTER)).toEqual([
+            "first",
+            "second",
+            "third",
+         ]);
+      });
+
+      it("should reject mixing multi and non-multi registrations", async () => {
+         @Module({
+            imports: [MemoryModule],
+            providers: [{ provide: "INDICATORS", useValue: "disk" }],
+         })
+         class AppModule {}
+
+         const { moduleRegistry } = createContainer();
+
+         await expect(moduleRegistry.registerModule(AppModule)).rejects.toThrow(
+            MixedMultiProviderException
+         );
+      });
+   });
+
+   describe("injection tokens", () => {
+      interface MailConfig {
+         from: string;
+      }
+
+      it("should resolve typed tokens across module exports", async () => {
+         const MAIL_CONFIG = new InjectionToken<MailConfig>("MAIL_CONFIG");
+         const MAIL_FROM = new InjectionToken<string>("MAIL_FROM");
+
+         @Module({
+            providers: [
+               { provide: MAIL_CONFIG, useValue: { from: "noreply@app" } },
+            ],
+            exports: [MAIL_CONFIG],
+         })
+         class ConfigModule {}
+
+         @Injectable()
+         class MailService {
+            constructor(
+               @Inject(MAIL_CONFIG) readonly config: MailConfig,
+               @Inject(MAIL_FROM) readonly from: string
+            ) {}
+         }
+
+         @Module({
+            imports: [ConfigModule],
+            providers: [
+               MailService,
+               {
+                  provide: MAIL_FROM,
+                  useFactory: (config: MailConfig) => config.from,
+                  inject: [MAIL_CONFIG],
+               },
+            ],
+         })
+         class MailModule {}
+
+         const { moduleRegistry, providerCollector } = createContainer();
+         await moduleRegistry.registerModule(MailModule);
+
+         const mail = providerCollector.getProvider(MailService, MailModule);
+         expect(mail.config).toEqual({ from: "noreply@app" });
+         expect(mail.from).toBe("noreply@app");
+      });
+
+      it("should reject values that do not match the token type at compile time", () => {
+         const MAIL_CONFIG = new InjectionToken<MailConfig>("MAIL_CONFIG");
+
+         // @ts-expect-error useValue 必须符合令牌的类型参数
+         @Module({ providers: [{ provide: MAIL_CONFIG, useValue: 123 }] })
+         class InvalidValueModule {}
+
+         @Module({
+            providers: [
+               // @ts-expect-error 工厂的返回值必须符合令牌的类型参数
+               { provide: MAIL_CONFIG, useFactory: () => "noreply@app" },
+            ],
+         })
+         class InvalidFactoryModule {}
+
+         const provider: ValueProvider<MailConfig> = {
+            provide: MAIL_CONFIG,
+            // @ts-expect-error 指定类型参数的提供者同样校验
+            useValue: 123,
+         };
+
+         expect([InvalidValueModule, InvalidFactoryModule]).toHaveLength(2);
+         expect(provider.useValue).toBe(123);
+      });
+
+      it("should use the token description in error messages", async () => {
+         const MAIL_CONFIG = new InjectionToken<MailConfig>("MAIL_CONFIG");
+
+         @Injectable()
+         class MailService {
+            constructor(@Inject(MAIL_CONFIG) readonly config: MailConfig) {}
+         }
+
+         @Module({ providers: [MailService] })
+         class MailModule {}
+
+         const { moduleRegistry } = createContainer();
+
+         await expect(moduleRegistry.registerModule(MailModule)).rejects.toThrow(
+            "MailService (?). Please make sure that the argument InjectionToken MAIL_CONFIG at index [0]"
+         );
+      });
+   });
+});
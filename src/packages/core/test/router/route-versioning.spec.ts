@@ -0,0 +1,174 @@
+import "reflect-metadata";
+import { createContainer } from "../utils/test-container";
+import * as express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { Module } from "@/packages/common/decorators/modules";
+import { Controller } from "@/packages/common/decorators/core/controller.decorator";
+import { Version } from "@/packages/common/decorators/core/version.decorator";
+import { Get } from "@/packages/common/decorators/http/request-mapping.decorator";
+import { RequestMethod } from "@/packages/common/enums/request-method.enum";
+import { VersioningType } from "@/packages/common/enums/version-type.enum";
+import {
+   VERSION_NEUTRAL,
+   VersioningOptions,
+} from "@/packages/common/interfaces/version-options.interface";
+import { RouterExplorer } from "../../router/router-explorer";
+import { MiddlewareManager } from "../../middleware/middleware-manager";
+
+@Controller({ prefix: "cats", version: "1" })
+class CatsControllerV1 {
+   @Get()
+   findAll() {
+      return "cats v1";
+   }
+}
+
+@Controller("cats")
+class CatsControllerV2 {
+   @Version(["2", "3"])
+   @Get()
+   findAll() {
+      return "cats v2";
+   }
+
+   @Version(VERSION_NEUTRAL)
+   @Get("count")
+   count() {
+      return "count";
+   }
+}
+
+@Controller("dogs")
+class DogsController {
+   @Get()
+   findAll() {
+      return "dogs";
+   }
+}
+
+@Module({ controllers: [CatsControllerV1, CatsControllerV2, DogsController] })
+class AppModule {}
+
+describe("API versioning", () => {
+   let server: Server;
+
+   const bootstrap = async (
+      options: VersioningOptions,
+      configure?: (app: express.Express) => void
+   ) => {
+      const { moduleRegistry, providerCollector } = createContainer();
+      await moduleRegistry.registerModule(AppModule);
+
+      const app = express();
+      configure?.(app);
+      const routerExplorer = new RouterExplorer(
+         app,
+         moduleRegistry,
+         providerCollector,
+         async (error) => {
+            throw error;
+         }
+      );
+      routerExplorer.setVersioningOptions(options);
+      await routerExplorer.explore(AppModule);
+
+      server = await new Promise<Server>((resolve) => {
+         const listening = app.listen(0, () => resolve(listening));
+      });
+      const { port } = server.address() as AddressInfo;
+      return async (path: string, headers: Record<string, string> = {}) => {
+         const response = await fetch(`http://localhost:${port}${path}`, {
+            headers,
+         });
+         return {
+            status: response.status,
+            body: await response.text(),
+            headers: response.headers,
+         };
+      };
+   };
+
+   afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+   });
+
+   it("should register URI versions and fall back to the default version", async () => {
+      const request = await bootstrap({
+         type: VersioningType.URI,
+         defaultVersion: [VERSION_NEUTRAL, "1"],
+      });
+
+      expect((await request("/v1/cats")).body).toBe("cats v1");
+      expect((await request("/v3/cats")).body).toBe("cats v2");
+      expect((await request("/v4/cats")).status).toBe(404);
+      expect((await request("/v2/cats/count")).status).toBe(404);
+      expect((await request("/cats/count")).body).toBe("count");
+      expect((await request("/dogs")).body).toBe("dogs");
+      expect((await request("/v1/dogs")).body).toBe("dogs");
+   });
+
+   it("should dispatch the same path by header and media type versions", async () => {
+      const byHeader = await bootstrap({
+         type: VersioningType.HEADER,
+         header: "X-API-Version",
+      });
+
+      expect((await byHeader("/cats", { "x-api-version": "1" })).body).toBe(
+         "cats v1"
+      );
+      expect((await byHeader("/cats", { "x-api-version": "2" })).body).toBe(
+         "cats v2"
+      );
+      expect((await byHeader("/cats")).status).toBe(404);
+      expect((await byHeader("/cats/count")).body).toBe("count");
+      await new Promise((resolve) => server.close(resolve));
+
+      const byMediaType = await bootstrap({
+         type: VersioningType.MEDIA_TYPE,
+         key: "v=",
+      });
+      expect(
+         (await byMediaType("/cats", { accept: "application/json;v=3" })).body
+      ).toBe("cats v2");
+   });
+
+   it("should pick the highest version returned by a custom extractor", async () => {
+      const request = await bootstrap({
+         type: VersioningType.CUSTOM,
+         extractor: (req: any) => String(req.query.versions ?? "").split(","),
+      });
+
+      expect((await request("/cats?versions=5,3,1")).body).toBe("cats v2");
+      expect((await request("/cats?versions=5,1")).body).toBe("cats v1");
+   });
+
+   it("should only run middleware for the route version", async () => {
+      const options: VersioningOptions = {
+         type: VersioningType.HEADER,
+         header: "X-API-Version",
+      };
+      const request = await bootstrap(options, (app) => {
+         const manager = new MiddlewareManager(app, jest.fn(), options);
+         manager
+            .apply({
+               use(req, res, next) {
+                  res.setHeader("x-deprecated", "true");
+                  next();
+               },
+            })
+            .forRoutes({
+               path: "cats",
+               method: RequestMethod.GET,
+               version: "1",
+            });
+      });
+
+      const v1 = await request("/cats", { "x-api-version": "1" });
+      const v2 = await request("/cats", { "x-api-version": "2" });
+      expect(v1.body).toBe("cats v1");
+      expect(v1.headers.get("x-deprecated")).toBe("true");
+      expect(v2.body).toBe("cats v2");
+      expect(v2.headers.get("x-deprecated")).toBeNull();
+   });
+});
@@ -0,0 +1,27 @@
+import { Logger } from "../../logger-server";
+import { ModuleRegistry } from "../../modules/module-registry";
+import { ProviderCollector } from "../../providers/provider-collector";
+
+// 测试中静默日志输出，静态方法和实例方法都替换为 jest.fn()
+// 引入本文件的测试需要在引入被测模块之前引入，使 mock 先于 logger-server 生效
+jest.mock("../../logger-server", () => ({
+   Logger: class {
+      static log = jest.fn();
+      static warn = jest.fn();
+      static error = jest.fn();
+      log = jest.fn();
+      warn = jest.fn();
+      error = jest.fn();
+   },
+}));
+
+/**
+ * 创建互相关联的模块注册器和提供者收集器
+ * @param logger - 模块注册器使用的日志，未指定时使用独立的日志实例
+ */
+export const createContainer = (logger?: Logger) => {
+   const moduleRegistry = new ModuleRegistry(logger);
+   const providerCollector = new ProviderCollector(moduleRegistry);
+   moduleRegistry.setProviderCollector(providerCollector);
+   return { moduleRegistry, providerCollector };
+};